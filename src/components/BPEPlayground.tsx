@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from "react";
+import { Fragment, useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -11,7 +11,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
 import {
   Play,
   RotateCcw,
@@ -41,33 +50,63 @@ import {
   Globe,
   TrendingUp,
 } from "lucide-react";
-
-interface BPEStep {
-  iteration: number;
-  mostFrequentPair: [string, string] | null;
-  frequency: number;
-  vocabulary: string[];
-  mergedTokens: string[];
-  compressionRatio: number;
-  mergingRules: Array<{ pair: [string, string]; newToken: string }>;
-  pairFrequencies: Map<string, number>;
-}
-
-interface BPEResult {
-  steps: BPEStep[];
-  finalTokens: string[];
-  finalVocabulary: string[];
-  statistics: {
-    totalMerges: number;
-    finalCompressionRatio: number;
-    uniqueChars: number;
-    averageTokenLength: number;
-    vocabularyEfficiency: number;
-  };
-}
+import {
+  CHARACTER_UNIT_LABELS,
+  DEFAULT_MAX_INPUT_CHARS_PER_WORD,
+  MIN_PAIR_FREQUENCY,
+  PRE_TOKENIZER_LABELS,
+  STOP_REASON_LABELS,
+  TIE_BREAK_LABELS,
+  UNKNOWN_HANDLING_LABELS,
+  MAX_DIFF_CHARS,
+  DEFAULT_NORMALIZER,
+  compilePreTokenizer,
+  diffText,
+  normalizerStages,
+  createRandom,
+  canExportMergesTxt,
+  hasEndOfWordSymbol,
+  encode,
+  fromSentencePiece,
+  fromTiktoken,
+  fromVocabAndMerges,
+  isFallbackToken,
+  parseSpecialTokens,
+  withSpecialTokens,
+  roundTrip,
+  sampleSegmentations,
+  toHuggingFaceTokenizer,
+  toMergesTxt,
+  toVocabJson,
+  traceMerges,
+  createStepReplayer,
+  pretokenize,
+  type BPEConfig,
+  type CharacterUnit,
+  type DiffSegment,
+  type NormalizerConfig,
+  type PreTokenizerConfig,
+  type PreTokenizerKind,
+  type TokenizerAlgorithm,
+  type TokenizerFamily,
+  type StoppingCriteria,
+  type TieBreakPolicy,
+  type Tokenizer,
+  type TrainerKind,
+  type TrainingMode,
+  type UnicodeForm,
+  type UnknownHandling,
+  type UnigramPhase,
+} from "@/lib/bpe";
+import { useBPETraining } from "@/hooks/use-bpe-training";
 
 interface TokenizerModel {
   name: string;
+  family: TokenizerFamily;
+  algorithm: TokenizerAlgorithm;
+  byteLevel: boolean;
+  preTokenizer: PreTokenizerKind;
+  unknownHandling: UnknownHandling;
   description: string;
   vocabSize: number;
   specialTokens: string[];
@@ -80,6 +119,11 @@ interface TokenizerModel {
 const TOKENIZER_MODELS: TokenizerModel[] = [
   {
     name: "GPT-2",
+    family: "gpt",
+    algorithm: "bpe",
+    byteLevel: true,
+    preTokenizer: "gpt2",
+    unknownHandling: "byte-fallback",
     description: "OpenAI's GPT-2 BPE tokenizer with 50,257 vocab size",
     vocabSize: 50257,
     specialTokens: ["<|endoftext|>"],
@@ -90,6 +134,11 @@ const TOKENIZER_MODELS: TokenizerModel[] = [
   },
   {
     name: "GPT-4",
+    family: "gpt",
+    algorithm: "bpe",
+    byteLevel: true,
+    preTokenizer: "cl100k",
+    unknownHandling: "byte-fallback",
     description:
       "GPT-4 cl100k_base tokenizer with enhanced multilingual support",
     vocabSize: 100256,
@@ -106,6 +155,11 @@ const TOKENIZER_MODELS: TokenizerModel[] = [
   },
   {
     name: "BERT",
+    family: "bert",
+    algorithm: "wordpiece",
+    byteLevel: false,
+    preTokenizer: "whitespace",
+    unknownHandling: "unk",
     description: "BERT WordPiece tokenizer with 30K vocabulary",
     vocabSize: 30522,
     specialTokens: ["[CLS]", "[SEP]", "[PAD]", "[UNK]", "[MASK]"],
@@ -116,6 +170,11 @@ const TOKENIZER_MODELS: TokenizerModel[] = [
   },
   {
     name: "T5/SentencePiece",
+    family: "t5",
+    algorithm: "unigram",
+    byteLevel: false,
+    preTokenizer: "metaspace",
+    unknownHandling: "unk",
     description: "T5's SentencePiece unigram tokenizer",
     vocabSize: 32128,
     specialTokens: ["<pad>", "</s>", "<unk>", "<extra_id_0>"],
@@ -126,6 +185,11 @@ const TOKENIZER_MODELS: TokenizerModel[] = [
   },
   {
     name: "LLaMA",
+    family: "llama",
+    algorithm: "bpe",
+    byteLevel: false,
+    preTokenizer: "metaspace",
+    unknownHandling: "byte-fallback",
     description: "LLaMA's SentencePiece BPE with 32K vocabulary",
     vocabSize: 32000,
     specialTokens: ["<s>", "</s>", "<unk>"],
@@ -136,9 +200,14 @@ const TOKENIZER_MODELS: TokenizerModel[] = [
   },
   {
     name: "Custom",
+    family: "custom",
+    algorithm: "bpe",
+    byteLevel: false,
+    preTokenizer: "whitespace",
+    unknownHandling: "unk",
     description: "Create your own BPE tokenizer with custom settings",
     vocabSize: 1000,
-    specialTokens: ["</w>"],
+    specialTokens: ["<|endoftext|>"],
     icon: Settings2,
     preprocessing: "Configurable preprocessing pipeline",
     mergeStrategy: "Standard BPE with customizable parameters",
@@ -159,6 +228,10 @@ const SAMPLE_TEXTS = [
     name: "Multilingual",
     text: "hello world 你好世界 bonjour monde hola mundo こんにちは世界 مرحبا بالعالم",
   },
+  {
+    name: "Emoji & Accents",
+    text: "cafe\u0301 cafe\u0301 nai\u0308ve 👍🏽 👍🏽 👨‍👩‍👧 👨‍👩‍👧 🇯🇵 🇯🇵 नमस्ते नमस्ते 한국어",
+  },
   {
     name: "Technical Terms",
     text: "machine learning artificial intelligence natural language processing deep neural networks backpropagation gradient descent optimization algorithms",
@@ -169,19 +242,176 @@ const SAMPLE_TEXTS = [
   },
 ];
 
+// Long runs are sampled/windowed so the panels stay readable
+const COMPRESSION_CHART_BARS = 40;
+const STEP_TABLE_ROWS = 10;
+const MAX_PREVIEW_CHUNKS = 60;
+const MAX_REMOVED_PIECES = 24;
+const MAX_SAMPLES = 50;
+
+const STOPPING_FIELDS: Array<{
+  key: keyof StoppingCriteria;
+  label: string;
+  step: number;
+}> = [
+  { key: "minPairFrequency", label: "Min pair frequency", step: 1 },
+  { key: "targetCompressionRatio", label: "Target compression", step: 0.1 },
+  { key: "maxMerges", label: "Max merges", step: 1 },
+  { key: "maxTokenLength", label: "Max token length", step: 1 },
+  { key: "timeBudgetMs", label: "Time budget (s)", step: 0.5 },
+];
+
+// What kind of vocabulary an imported tokenizer was recognised as
+const describePretrained = (config: BPEConfig) => {
+  if (config.byteLevel) return "Byte-level vocabulary (GPT-2 style)";
+  const vocabulary =
+    config.family === "custom"
+      ? "Custom-style BPE vocabulary with </w> word ends"
+      : `SentencePiece-style ${
+          config.algorithm === "unigram" ? "Unigram" : "BPE"
+        } vocabulary with ▁ word starts`;
+  return `${vocabulary} • ${
+    UNKNOWN_HANDLING_LABELS[config.unknownHandling]
+  } for unknown characters`;
+};
+
+// A symbol that can't stand on its own: a combining mark gets a dotted
+// circle to sit on, and invisible characters show their code point
+const renderText = (text: string) => {
+  if (/^\p{M}/u.test(text)) {
+    return (
+      <>
+        <span className="text-gray-400">◌</span>
+        {text}
+      </>
+    );
+  }
+  if (/^[\p{Cc}\p{Cf}]$/u.test(text)) {
+    return (
+      <span className="text-gray-400">
+        U+{text.codePointAt(0).toString(16).toUpperCase().padStart(4, "0")}
+      </span>
+    );
+  }
+  return text;
+};
+
+// </w> shows as ●, and SentencePiece's ▁ word-start marker is set apart
+// from the text it prefixes
+const renderToken = (token: string) =>
+  token
+    .replace("</w>", "●")
+    .split("▁")
+    .map((part, i) => (
+      <Fragment key={i}>
+        {i > 0 && <span className="font-bold text-amber-600">▁</span>}
+        {renderText(part)}
+      </Fragment>
+    ));
+
+// Removed text is struck through, added text underlined
+const renderDiff = (diff: DiffSegment[]) =>
+  diff.map((segment, index) => (
+    <span
+      key={index}
+      className={
+        segment.kind === "removed"
+          ? "bg-red-100 text-red-700 line-through"
+          : segment.kind === "added"
+          ? "bg-green-100 text-green-700 underline"
+          : ""
+      }
+    >
+      {segment.text}
+    </span>
+  ));
+
+const UNICODE_FORMS: UnicodeForm[] = ["none", "NFC", "NFD", "NFKC", "NFKD"];
+
+const NORMALIZER_TOGGLES: Array<{
+  key: Exclude<keyof NormalizerConfig, "unicodeForm">;
+  label: string;
+  description: string;
+}> = [
+  { key: "lowercase", label: "Lowercase", description: "Fold case" },
+  {
+    key: "stripAccents",
+    label: "Strip accents",
+    description: "Drop combining marks, é becomes e",
+  },
+  {
+    key: "removeControl",
+    label: "Remove control characters",
+    description: "Keeps tabs and line breaks",
+  },
+  {
+    key: "collapseWhitespace",
+    label: "Collapse whitespace",
+    description: "Runs of whitespace become one space",
+  },
+];
+
+const UNIGRAM_PHASE_LABELS: Record<UnigramPhase, string> = {
+  seed: "Seed Vocabulary",
+  em: "EM Re-estimation",
+  prune: "Pruning Round",
+};
+
 const BPEPlayground = () => {
   const [inputText, setInputText] = useState(
     "attention is all you need transformer architecture"
   );
   const [selectedModel, setSelectedModel] = useState("Custom");
   const [vocabSize, setVocabSize] = useState(1000);
+  const [trainingMode, setTrainingMode] = useState<TrainingMode>("words");
+  const [trainer, setTrainer] = useState<TrainerKind>("incremental");
+  const [tieBreak, setTieBreak] = useState<TieBreakPolicy>("shortest");
+  const [characterUnit, setCharacterUnit] =
+    useState<CharacterUnit>("code-point");
+  const [characterCoverage, setCharacterCoverage] = useState(1);
+  const [unknownHandling, setUnknownHandling] =
+    useState<UnknownHandling>("unk");
+  const [stopping, setStopping] = useState<StoppingCriteria>({
+    minPairFrequency: MIN_PAIR_FREQUENCY,
+  });
+  const [customByteLevel, setCustomByteLevel] = useState(false);
+  const [customSpecialTokens, setCustomSpecialTokens] = useState(
+    () => TOKENIZER_MODELS[5].specialTokens
+  );
+  const [newSpecialToken, setNewSpecialToken] = useState("");
+  const [allowSpecialTokens, setAllowSpecialTokens] = useState(true);
+  const [normalizer, setNormalizer] =
+    useState<NormalizerConfig>(DEFAULT_NORMALIZER);
+  const [preTokenizerKind, setPreTokenizerKind] =
+    useState<PreTokenizerKind>("whitespace");
+  const [maxInputCharsPerWord, setMaxInputCharsPerWord] = useState(
+    DEFAULT_MAX_INPUT_CHARS_PER_WORD
+  );
+  const [customPattern, setCustomPattern] = useState("\\w+|[^\\w\\s]+");
   const [currentStep, setCurrentStep] = useState(0);
   const [isAnimating, setIsAnimating] = useState(false);
   const [animationSpeed, setAnimationSpeed] = useState(1000);
   const [showStatistics, setShowStatistics] = useState(false);
   const [showComparison, setShowComparison] = useState(false);
   const [selectedSample, setSelectedSample] = useState("");
-  const [compressionHistory, setCompressionHistory] = useState<number[]>([]);
+  const [heldOutText, setHeldOutText] = useState(
+    "attention mechanisms generalize to unseen words"
+  );
+  const [dropout, setDropout] = useState(0);
+  const [dropoutSeed, setDropoutSeed] = useState(42);
+  const [sampleCount, setSampleCount] = useState(8);
+  const [pretrained, setPretrained] = useState<{
+    name: string;
+    tokenizer: Tokenizer;
+  } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [pretrainedPreTokenizer, setPretrainedPreTokenizer] =
+    useState<PreTokenizerKind>("gpt2");
+  const [pretrainedPattern, setPretrainedPattern] = useState("");
+  const [pretrainedSpecialTokens, setPretrainedSpecialTokens] = useState("");
+  const [tracedChunk, setTracedChunk] = useState(0);
+  const [traceStep, setTraceStep] = useState(0);
 
   const currentModel =
     TOKENIZER_MODELS.find((m) => m.name === selectedModel) ||
@@ -194,192 +424,317 @@ const BPEPlayground = () => {
     }
   }, [selectedModel, currentModel.vocabSize]);
 
-  // Enhanced BPE Algorithm Implementation
-  const computeBPE = (
-    text: string,
-    maxVocabSize: number,
-    model: TokenizerModel
-  ): BPEResult => {
-    // Advanced preprocessing based on model type
-    let processedText = text;
-
-    if (model.name.includes("GPT")) {
-      // GPT-style preprocessing with byte-level handling
-      processedText = text.replace(/\s+/g, " ").trim();
-    } else if (model.name === "BERT") {
-      // BERT-style preprocessing
-      processedText = text
-        .toLowerCase()
-        .replace(/[^\w\s]/g, " ")
-        .replace(/\s+/g, " ")
-        .trim();
-    } else if (model.name.includes("T5") || model.name.includes("LLaMA")) {
-      // SentencePiece-style preprocessing
-      processedText = text.replace(/\s+/g, "▁").replace(/^▁/, "");
+  useEffect(() => {
+    setPreTokenizerKind(currentModel.preTokenizer);
+  }, [currentModel.preTokenizer]);
+
+  useEffect(() => {
+    setUnknownHandling(currentModel.unknownHandling);
+  }, [currentModel.unknownHandling]);
+
+  // An invalid custom regex falls back to whitespace splitting
+  const customPatternError = useMemo(() => {
+    if (preTokenizerKind !== "custom") return null;
+    try {
+      compilePreTokenizer({ kind: "custom", pattern: customPattern });
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
     }
+  }, [preTokenizerKind, customPattern]);
+
+  const preTokenizer = useMemo<PreTokenizerConfig>(() => {
+    if (preTokenizerKind !== "custom") return { kind: preTokenizerKind };
+    if (customPatternError) return { kind: "whitespace" };
+    return { kind: "custom", pattern: customPattern };
+  }, [preTokenizerKind, customPattern, customPatternError]);
+
+  const specialTokens =
+    currentModel.name === "Custom"
+      ? customSpecialTokens
+      : currentModel.specialTokens;
+  const activeNormalizer =
+    currentModel.name === "Custom" ? normalizer : undefined;
+
+  const trainingConfig = useMemo<BPEConfig>(
+    () => ({
+      vocabSize,
+      algorithm: currentModel.algorithm,
+      family: currentModel.family,
+      byteLevel:
+        currentModel.name === "Custom"
+          ? customByteLevel
+          : currentModel.byteLevel,
+      normalizer: activeNormalizer,
+      preTokenizer,
+      trainingMode,
+      trainer,
+      tieBreak,
+      characterUnit,
+      characterCoverage,
+      unknownHandling,
+      stopping,
+      specialTokens,
+      allowSpecialTokens,
+      maxInputCharsPerWord,
+    }),
+    [
+      vocabSize,
+      currentModel,
+      customByteLevel,
+      activeNormalizer,
+      specialTokens,
+      allowSpecialTokens,
+      preTokenizer,
+      trainingMode,
+      trainer,
+      tieBreak,
+      characterUnit,
+      characterCoverage,
+      unknownHandling,
+      stopping,
+      maxInputCharsPerWord,
+    ]
+  );
 
-    // Enhanced tokenization
-    const words = processedText.split(/\s+/).filter((word) => word.length > 0);
-    let tokens: string[] = [];
-
-    words.forEach((word) => {
-      if (model.name === "BERT") {
-        // BERT uses ## for subwords
-        const chars = word.split("");
-        tokens = tokens.concat(
-          chars.map((char, i) => (i === 0 ? char : `##${char}`))
-        );
-      } else if (model.name.includes("T5")) {
-        // T5/SentencePiece handling
-        const chars = word.split("");
-        tokens = tokens.concat(chars);
-      } else {
-        // Standard BPE with </w>
-        const chars = word.split("").concat(["</w>"]);
-        tokens = tokens.concat(chars);
-      }
+  const {
+    result: bpeResult,
+    progress: trainingProgress,
+    isTraining,
+    error: trainingError,
+    cancel: cancelTraining,
+  } = useBPETraining(inputText, trainingConfig);
+
+  // Passes over whole texts follow the last finished run rather than every
+  // batch streamed in, so training doesn't block the main thread
+  const [settledResult, setSettledResult] = useState(bpeResult);
+  useEffect(() => {
+    if (!isTraining) setSettledResult(bpeResult);
+  }, [isTraining, bpeResult]);
+
+  // What each enabled normalizer stage does to the training text
+  const normalizationDiffs = useMemo(() => {
+    if (!activeNormalizer) return [];
+    let text = inputText;
+    return normalizerStages(activeNormalizer).map((stage) => {
+      const before = text;
+      text = stage.apply(text);
+      return {
+        name: stage.name,
+        changed: before !== text,
+        diff:
+          before === text
+            ? []
+            : diffText(
+                before.slice(0, MAX_DIFF_CHARS),
+                text.slice(0, MAX_DIFF_CHARS)
+              ),
+      };
     });
+  }, [inputText, activeNormalizer]);
 
-    // Initialize vocabulary with characters and special tokens
-    const uniqueChars = [
-      ...new Set(
-        tokens.filter((t) => !t.includes("</w>") && !t.includes("##"))
-      ),
-    ];
-    const vocabulary = [...uniqueChars, ...model.specialTokens];
-    const steps: BPEStep[] = [];
-    const mergingRules: Array<{ pair: [string, string]; newToken: string }> =
-      [];
-
-    // Calculate initial statistics
-    const initialCompressionRatio = text.length / tokens.length;
-
-    // Initial step
-    steps.push({
-      iteration: 0,
-      mostFrequentPair: null,
-      frequency: 0,
-      vocabulary: [...vocabulary],
-      mergedTokens: [...tokens],
-      compressionRatio: initialCompressionRatio,
-      mergingRules: [...mergingRules],
-      pairFrequencies: new Map(),
-    });
+  // Chunks merges can't cross, shown before training starts
+  const preTokenizedChunks = useMemo(
+    () => pretokenize(inputText, trainingConfig),
+    [inputText, trainingConfig]
+  );
 
-    let currentTokens = [...tokens];
-    let currentVocabulary = [...vocabulary];
-    const maxIterations = Math.min(maxVocabSize - vocabulary.length, 100);
-
-    for (
-      let iter = 1;
-      iter <= maxIterations && currentVocabulary.length < maxVocabSize;
-      iter++
-    ) {
-      // Count pair frequencies with enhanced tracking
-      const pairCounts: Map<string, number> = new Map();
-
-      for (let i = 0; i < currentTokens.length - 1; i++) {
-        const pair = `${currentTokens[i]}|||${currentTokens[i + 1]}`;
-        pairCounts.set(pair, (pairCounts.get(pair) || 0) + 1);
-      }
+  // Symbols the run started from, as opposed to learned merges
+  const baseSymbols = useMemo(
+    () => new Set(bpeResult.initial.vocabulary),
+    [bpeResult]
+  );
 
-      if (pairCounts.size === 0) break;
-
-      // Find most frequent pair with tie-breaking
-      let mostFrequentPair: [string, string] | null = null;
-      let maxFreq = 0;
-
-      for (const [pair, freq] of pairCounts.entries()) {
-        const [first, second] = pair.split("|||");
-        if (
-          freq > maxFreq ||
-          (freq === maxFreq &&
-            pair.length <
-              (mostFrequentPair
-                ? mostFrequentPair[0] + mostFrequentPair[1]
-                : ""
-              ).length)
-        ) {
-          maxFreq = freq;
-          mostFrequentPair = [first, second];
-        }
-      }
+  // Held-out text tokenized with the vocabulary trained so far
+  // BPE-dropout only applies to merge-based encoding
+  const activeDropout = currentModel.algorithm === "bpe" ? dropout : 0;
+  const heldOutEncoding = useMemo(
+    () =>
+      encode(heldOutText, settledResult, {
+        dropout: activeDropout,
+        random: createRandom(dropoutSeed),
+      }),
+    [heldOutText, settledResult, activeDropout, dropoutSeed]
+  );
 
-      if (!mostFrequentPair || maxFreq < 2) break;
+  const sampledSegmentations = useMemo(
+    () =>
+      activeDropout > 0
+        ? sampleSegmentations(
+            heldOutText,
+            settledResult,
+            activeDropout,
+            dropoutSeed,
+            sampleCount
+          )
+        : [],
+    [heldOutText, settledResult, activeDropout, dropoutSeed, sampleCount]
+  );
 
-      // Create new token with model-specific rules
-      let newToken: string;
-      if (model.name === "BERT" && mostFrequentPair[1].startsWith("##")) {
-        newToken = mostFrequentPair[0] + mostFrequentPair[1].substring(2);
-      } else if (model.name.includes("T5") || model.name.includes("LLaMA")) {
-        newToken = mostFrequentPair[0] + mostFrequentPair[1];
-      } else {
-        newToken = mostFrequentPair[0] + mostFrequentPair[1];
-      }
+  const pretrainedPatternError = useMemo(() => {
+    if (pretrainedPreTokenizer !== "custom") return null;
+    try {
+      compilePreTokenizer({ kind: "custom", pattern: pretrainedPattern });
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }, [pretrainedPreTokenizer, pretrainedPattern]);
+
+  // An invalid list, or one reusing the id of another token, keeps the
+  // special tokens the import came with
+  const parsedSpecialTokens = useMemo(() => {
+    try {
+      const tokens = parseSpecialTokens(pretrainedSpecialTokens);
+      if (pretrained) withSpecialTokens(pretrained.tokenizer, tokens);
+      return { tokens };
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }, [pretrained, pretrainedSpecialTokens]);
+
+  // The imported tokenizer with the pre-tokenizer and special tokens picked
+  // for it
+  const pretrainedTokenizer = useMemo<Tokenizer | null>(() => {
+    if (!pretrained) return null;
+    const preTokenizer: PreTokenizerConfig =
+      pretrainedPreTokenizer !== "custom"
+        ? { kind: pretrainedPreTokenizer }
+        : pretrainedPatternError
+        ? pretrained.tokenizer.config.preTokenizer
+        : { kind: "custom", pattern: pretrainedPattern };
+    const tokenizer = {
+      ...pretrained.tokenizer,
+      config: { ...pretrained.tokenizer.config, preTokenizer },
+    };
+    return parsedSpecialTokens.tokens
+      ? withSpecialTokens(tokenizer, parsedSpecialTokens.tokens)
+      : tokenizer;
+  }, [
+    pretrained,
+    pretrainedPreTokenizer,
+    pretrainedPattern,
+    pretrainedPatternError,
+    parsedSpecialTokens,
+  ]);
+
+  const pretrainedChunks = useMemo(
+    () =>
+      pretrainedTokenizer
+        ? pretokenize(heldOutText, pretrainedTokenizer.config)
+        : [],
+    [heldOutText, pretrainedTokenizer]
+  );
 
-      // Merge tokens
-      const newTokens: string[] = [];
-      for (let i = 0; i < currentTokens.length; i++) {
-        if (
-          i < currentTokens.length - 1 &&
-          currentTokens[i] === mostFrequentPair[0] &&
-          currentTokens[i + 1] === mostFrequentPair[1]
-        ) {
-          newTokens.push(newToken);
-          i++; // Skip next token
-        } else {
-          newTokens.push(currentTokens[i]);
-        }
-      }
+  // Unigram log probabilities, shown with each token
+  const pretrainedScores = useMemo(
+    () => new Map(pretrainedTokenizer?.pieces),
+    [pretrainedTokenizer]
+  );
+
+  const pretrainedTokenTitle = (token: string, id: number) => {
+    if (id < 0) return "Not in the vocabulary";
+    const score = pretrainedScores.get(token);
+    return score === undefined
+      ? `ID ${id}`
+      : `ID ${id} • log p ${score.toFixed(2)}`;
+  };
+
+  const pretrainedEncoding = useMemo(
+    () => pretrainedTokenizer && encode(heldOutText, pretrainedTokenizer),
+    [heldOutText, pretrainedTokenizer]
+  );
 
-      currentTokens = newTokens;
-      currentVocabulary.push(newToken);
-      mergingRules.push({ pair: mostFrequentPair, newToken });
-
-      const compressionRatio = text.length / currentTokens.length;
-
-      steps.push({
-        iteration: iter,
-        mostFrequentPair,
-        frequency: maxFreq,
-        vocabulary: [...currentVocabulary],
-        mergedTokens: [...currentTokens],
-        compressionRatio,
-        mergingRules: [...mergingRules],
-        pairFrequencies: new Map(pairCounts),
+  const mergeTrace = useMemo(
+    () =>
+      pretrainedTokenizer?.config.algorithm === "bpe" &&
+      tracedChunk < pretrainedChunks.length
+        ? traceMerges(pretrainedChunks[tracedChunk], pretrainedTokenizer)
+        : null,
+    [pretrainedTokenizer, pretrainedChunks, tracedChunk]
+  );
+  // Editing the text can leave the step past the end of a shorter trace
+  const shownTraceStep = mergeTrace
+    ? Math.min(traceStep, mergeTrace.steps.length)
+    : 0;
+
+  // Whether decode(encode(text)) gives the training text back; only worked
+  // out while the statistics panel is open and training has finished
+  const inputRoundTrip = useMemo(
+    () =>
+      showStatistics && !isTraining ? roundTrip(inputText, bpeResult) : null,
+    [showStatistics, isTraining, inputText, bpeResult]
+  );
+
+  // Steps are stored as deltas; full token sequences are rebuilt on demand
+  const replayStep = useMemo(() => createStepReplayer(bpeResult), [bpeResult]);
+
+  // Compression history for visualization
+  const compressionHistory = useMemo(
+    () => bpeResult.steps.map((step) => step.compressionRatio),
+    [bpeResult]
+  );
+
+  const compressionChart = useMemo(() => {
+    const stride = Math.max(
+      1,
+      Math.ceil(compressionHistory.length / COMPRESSION_CHART_BARS)
+    );
+    const bars: Array<{ step: number; ratio: number }> = [];
+    for (let i = 0; i < compressionHistory.length; i += stride) {
+      bars.push({ step: i, ratio: compressionHistory[i] });
+    }
+    const maxRatio = compressionHistory.reduce((m, r) => Math.max(m, r), 0);
+    return { bars, stride, maxRatio };
+  }, [compressionHistory]);
+
+  // A SentencePiece .model or .tiktoken file, or vocab.json and merges.txt
+  // picked or dropped together
+  const importPretrained = async (files: File[]) => {
+    const modelFile = files.find((file) => file.name.endsWith(".model"));
+    const tiktokenFile = files.find((file) => file.name.endsWith(".tiktoken"));
+    const vocabFile = files.find((file) => file.name.endsWith(".json"));
+    const mergesFile = files.find(
+      (file) => file.name.endsWith(".txt") || file.name.endsWith(".bpe")
+    );
+    const singleFile = modelFile ?? tiktokenFile;
+    if (!singleFile && (!vocabFile || !mergesFile)) {
+      setImportError(
+        "Select a .model or .tiktoken file, or a vocab.json and a merges.txt file together."
+      );
+      return;
+    }
+    try {
+      const tokenizer = modelFile
+        ? fromSentencePiece(new Uint8Array(await modelFile.arrayBuffer()))
+        : tiktokenFile
+        ? fromTiktoken(await tiktokenFile.text(), tiktokenFile.name)
+        : fromVocabAndMerges(await vocabFile!.text(), await mergesFile!.text());
+      setPretrained({
+        name: singleFile
+          ? singleFile.name
+          : `${vocabFile!.name} + ${mergesFile!.name}`,
+        tokenizer,
       });
+      setPretrainedPreTokenizer(tokenizer.config.preTokenizer.kind);
+      setPretrainedPattern(tokenizer.config.preTokenizer.pattern ?? "");
+      setPretrainedSpecialTokens(
+        tokenizer.config.specialTokens
+          .map(
+            (token) => `${token} ${tokenizer.finalVocabulary.indexOf(token)}`
+          )
+          .join("\n")
+      );
+      setImportError(null);
+      setTracedChunk(0);
+      setTraceStep(0);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
     }
-
-    // Calculate final statistics
-    const finalTokens = steps[steps.length - 1].mergedTokens;
-    const finalVocabulary = steps[steps.length - 1].vocabulary;
-    const averageTokenLength =
-      finalTokens.reduce((sum, token) => sum + token.length, 0) /
-      finalTokens.length;
-    const vocabularyEfficiency = finalVocabulary.length / maxVocabSize;
-
-    return {
-      steps,
-      finalTokens,
-      finalVocabulary,
-      statistics: {
-        totalMerges: steps.length - 1,
-        finalCompressionRatio: text.length / finalTokens.length,
-        uniqueChars: uniqueChars.length,
-        averageTokenLength,
-        vocabularyEfficiency,
-      },
-    };
   };
 
-  const bpeResult = useMemo(() => {
-    const result = computeBPE(inputText, vocabSize, currentModel);
-    // Update compression history for visualization
-    const history = result.steps.map((step) => step.compressionRatio);
-    setCompressionHistory(history);
-    return result;
-  }, [inputText, vocabSize, currentModel]);
-
   const handleReset = () => {
     setCurrentStep(0);
     setIsAnimating(false);
@@ -409,6 +764,16 @@ const BPEPlayground = () => {
     handleReset();
   };
 
+  const downloadFile = (name: string, content: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = name;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const exportResults = () => {
     const exportData = {
       model: currentModel.name,
@@ -418,18 +783,57 @@ const BPEPlayground = () => {
       timestamp: new Date().toISOString(),
     };
 
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], {
-      type: "application/json",
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `bpe-results-${currentModel.name.toLowerCase()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(
+      `bpe-results-${currentModel.name.toLowerCase()}.json`,
+      JSON.stringify(exportData, null, 2),
+      "application/json"
+    );
   };
 
-  const currentBPEStep = bpeResult.steps[currentStep] || bpeResult.steps[0];
+  // Loadable with tokenizers' Tokenizer.from_file
+  const exportTokenizerJson = () => {
+    downloadFile(
+      "tokenizer.json",
+      JSON.stringify(toHuggingFaceTokenizer(bpeResult), null, 2),
+      "application/json"
+    );
+  };
+
+  // Custom BPE's separate </w> symbol can't be written so that the files
+  // reproduce its segmentations
+  const tokenizerFilesExportable = !hasEndOfWordSymbol(bpeResult);
+
+  // Only BPE has merges, and only tokens without whitespace fit the format
+  const mergesTxtExportable = useMemo(
+    () =>
+      tokenizerFilesExportable &&
+      bpeResult.config.algorithm === "bpe" &&
+      canExportMergesTxt(bpeResult),
+    [tokenizerFilesExportable, bpeResult]
+  );
+
+  // The classic GPT-2 pair, as two downloads
+  const exportVocabAndMerges = () => {
+    downloadFile(
+      "vocab.json",
+      JSON.stringify(toVocabJson(bpeResult)),
+      "application/json"
+    );
+    downloadFile("merges.txt", toMergesTxt(bpeResult), "text/plain");
+  };
+
+  const currentBPEStep = useMemo(
+    () => replayStep(currentStep),
+    [replayStep, currentStep]
+  );
+  // Keep the current step inside the visible window of the step table
+  const stepTableStart = Math.max(
+    0,
+    Math.min(
+      currentStep - Math.floor(STEP_TABLE_ROWS / 2),
+      bpeResult.steps.length - STEP_TABLE_ROWS
+    )
+  );
   const progress =
     bpeResult.steps.length > 1
       ? (currentStep / (bpeResult.steps.length - 1)) * 100
@@ -496,14 +900,40 @@ const BPEPlayground = () => {
                 Model Comparison
               </Button>
 
-              <Button
-                variant="outline"
-                className="bg-white/10 border-white/20 text-white hover:bg-white/20 backdrop-blur-sm"
-                onClick={exportResults}
-              >
-                <Download className="w-4 h-4 mr-2" />
-                Export Results
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="bg-white/10 border-white/20 text-white hover:bg-white/20 backdrop-blur-sm"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={exportResults}>
+                    Training results (JSON)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={exportTokenizerJson}
+                    disabled={!tokenizerFilesExportable}
+                  >
+                    Hugging Face tokenizer.json
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={exportVocabAndMerges}
+                    disabled={!mergesTxtExportable}
+                  >
+                    GPT-2 vocab.json + merges.txt
+                  </DropdownMenuItem>
+                  {!tokenizerFilesExportable && (
+                    <DropdownMenuLabel className="max-w-[16rem] text-xs font-normal text-gray-500">
+                      Custom BPE merges onto a separate &lt;/w&gt; symbol, which
+                      tokenizer files can't express
+                    </DropdownMenuLabel>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button
                 variant="outline"
                 className="bg-white/10 border-white/20 text-white hover:bg-white/20 backdrop-blur-sm"
@@ -708,6 +1138,98 @@ const BPEPlayground = () => {
                 </div>
               </div>
 
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium">Pre-tokenizer</label>
+                  <Select
+                    value={preTokenizerKind}
+                    onValueChange={(val) => {
+                      setPreTokenizerKind(val as PreTokenizerKind);
+                      handleReset();
+                    }}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PRE_TOKENIZER_LABELS).map(
+                        ([kind, label]) => (
+                          <SelectItem key={kind} value={kind}>
+                            {label}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {preTokenizerKind === "custom" && (
+                  <div>
+                    <Input
+                      value={customPattern}
+                      onChange={(e) => setCustomPattern(e.target.value)}
+                      placeholder="Regular expression, e.g. \w+|[^\w\s]+"
+                      className="font-mono text-sm"
+                    />
+                    {customPatternError && (
+                      <div className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                        <AlertCircle className="w-3 h-3" />
+                        {customPatternError} — using whitespace split instead
+                      </div>
+                    )}
+                  </div>
+                )}
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium block">
+                      Match Special Tokens
+                    </label>
+                    <div className="text-xs text-gray-500">
+                      {allowSpecialTokens
+                        ? "Special tokens in the text stay whole, never split or merged"
+                        : "Special tokens in the text are tokenized as ordinary text"}
+                    </div>
+                  </div>
+                  <Switch
+                    checked={allowSpecialTokens}
+                    onCheckedChange={(checked) => {
+                      setAllowSpecialTokens(checked);
+                      handleReset();
+                    }}
+                  />
+                </div>
+                <div className="bg-gradient-to-r from-gray-50 to-green-50 p-3 rounded-lg border border-gray-200">
+                  <div className="text-xs text-gray-500 mb-2">
+                    {preTokenizedChunks.length} chunks • merges never cross a
+                    chunk boundary
+                  </div>
+                  <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+                    {preTokenizedChunks
+                      .slice(0, MAX_PREVIEW_CHUNKS)
+                      .map((chunk, index) => (
+                        <Badge
+                          key={index}
+                          variant="outline"
+                          className={`text-xs font-mono ${
+                            allowSpecialTokens && specialTokens.includes(chunk)
+                              ? "bg-red-100 text-red-700 border-red-200"
+                              : "bg-white text-gray-700 border-gray-300"
+                          }`}
+                        >
+                          {chunk.replace(/ /g, "␣").replace(/\n/g, "↵")}
+                        </Badge>
+                      ))}
+                    {preTokenizedChunks.length > MAX_PREVIEW_CHUNKS && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs bg-gray-100 text-gray-600"
+                      >
+                        +{preTokenizedChunks.length - MAX_PREVIEW_CHUNKS} more
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              </div>
+
               {selectedModel === "Custom" && (
                 <div className="space-y-4">
                   <div>
@@ -729,6 +1251,418 @@ const BPEPlayground = () => {
                       <span>10K</span>
                     </div>
                   </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="text-sm font-medium block">
+                        Byte-level BPE
+                      </label>
+                      <div className="text-xs text-gray-500">
+                        Merge over UTF-8 bytes with a 256-symbol base alphabet
+                      </div>
+                    </div>
+                    <Switch
+                      checked={customByteLevel}
+                      onCheckedChange={(checked) => {
+                        setCustomByteLevel(checked);
+                        handleReset();
+                      }}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">
+                      Special Tokens
+                    </label>
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {customSpecialTokens.map((token) => (
+                        <Badge
+                          key={token}
+                          variant="outline"
+                          className="text-xs bg-red-100 text-red-700 border-red-200 cursor-pointer"
+                          title="Remove"
+                          onClick={() => {
+                            setCustomSpecialTokens((tokens) =>
+                              tokens.filter((t) => t !== token)
+                            );
+                            handleReset();
+                          }}
+                        >
+                          {token} ×
+                        </Badge>
+                      ))}
+                    </div>
+                    <form
+                      className="flex gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        const token = newSpecialToken.trim();
+                        if (token && !customSpecialTokens.includes(token)) {
+                          setCustomSpecialTokens((tokens) => [
+                            ...tokens,
+                            token,
+                          ]);
+                          handleReset();
+                        }
+                        setNewSpecialToken("");
+                      }}
+                    >
+                      <Input
+                        value={newSpecialToken}
+                        onChange={(e) => setNewSpecialToken(e.target.value)}
+                        placeholder="e.g. <|im_start|>"
+                        className="font-mono text-xs"
+                      />
+                      <Button type="submit" variant="outline" size="sm">
+                        Add
+                      </Button>
+                    </form>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">
+                      Normalization
+                    </label>
+                    <div className="text-xs text-gray-500 mb-2">
+                      Applied to the text before pre-tokenization, special
+                      tokens excepted
+                    </div>
+                    <Select
+                      value={normalizer.unicodeForm}
+                      onValueChange={(val) => {
+                        setNormalizer((current) => ({
+                          ...current,
+                          unicodeForm: val as UnicodeForm,
+                        }));
+                        handleReset();
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {UNICODE_FORMS.map((form) => (
+                          <SelectItem key={form} value={form}>
+                            {form === "none"
+                              ? "No Unicode normalization"
+                              : form}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="space-y-2 mt-3">
+                      {NORMALIZER_TOGGLES.map(({ key, label, description }) => (
+                        <div
+                          key={key}
+                          className="flex items-center justify-between"
+                        >
+                          <div>
+                            <div className="text-sm">{label}</div>
+                            <div className="text-xs text-gray-500">
+                              {description}
+                            </div>
+                          </div>
+                          <Switch
+                            checked={normalizer[key]}
+                            onCheckedChange={(checked) => {
+                              setNormalizer((current) => ({
+                                ...current,
+                                [key]: checked,
+                              }));
+                              handleReset();
+                            }}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    {normalizationDiffs.length > 0 && (
+                      <div className="space-y-2 mt-3">
+                        {normalizationDiffs.map(({ name, changed, diff }) => (
+                          <div key={name}>
+                            <div className="text-xs font-medium text-gray-600 mb-1">
+                              {name}
+                              {!changed && (
+                                <span className="font-normal text-gray-400">
+                                  {" "}
+                                  (no change)
+                                </span>
+                              )}
+                            </div>
+                            {changed && (
+                              <div className="font-mono text-xs whitespace-pre-wrap break-all bg-gray-50 p-2 rounded-lg border border-gray-200 max-h-32 overflow-y-auto">
+                                {renderDiff(diff)}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                        {inputText.length > MAX_DIFF_CHARS && (
+                          <div className="text-xs text-gray-500">
+                            Showing the first {MAX_DIFF_CHARS} characters.
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Initial Symbols
+                </label>
+                <Select
+                  value={characterUnit}
+                  onValueChange={(val) => {
+                    setCharacterUnit(val as CharacterUnit);
+                    handleReset();
+                  }}
+                  disabled={trainingConfig.byteLevel}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CHARACTER_UNIT_LABELS).map(
+                      ([unit, label]) => (
+                        <SelectItem key={unit} value={unit}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+                <div className="text-xs text-gray-500 mt-1">
+                  {trainingConfig.byteLevel
+                    ? "Byte-level models always start from UTF-8 bytes."
+                    : characterUnit === "grapheme"
+                    ? "Emoji sequences and letters with combining marks start as one symbol."
+                    : "Surrogate pairs stay whole, but combining marks, skin tones and joined emoji split off."}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Character Coverage: {(characterCoverage * 100).toFixed(1)}%
+                </label>
+                <input
+                  type="range"
+                  min="0.9"
+                  max="1"
+                  step="0.001"
+                  value={characterCoverage}
+                  onChange={(e) => {
+                    setCharacterCoverage(parseFloat(e.target.value));
+                    handleReset();
+                  }}
+                  disabled={trainingConfig.byteLevel}
+                  className="w-full"
+                />
+                <div className="text-xs text-gray-500 mt-1">
+                  {trainingConfig.byteLevel
+                    ? "Byte-level models cover every character."
+                    : bpeResult.initial.rareCharacters.length > 0
+                    ? `Left out of the alphabet: ${bpeResult.initial.rareCharacters.join(
+                        " "
+                      )}`
+                    : "Every character in the text is in the alphabet."}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Unknown Characters
+                </label>
+                <Select
+                  value={unknownHandling}
+                  onValueChange={(val) => {
+                    setUnknownHandling(val as UnknownHandling);
+                    handleReset();
+                  }}
+                  disabled={
+                    trainingConfig.byteLevel ||
+                    currentModel.algorithm === "wordpiece"
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(UNKNOWN_HANDLING_LABELS).map(
+                      ([kind, label]) => (
+                        <SelectItem key={kind} value={kind}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+                <div className="text-xs text-gray-500 mt-1">
+                  {currentModel.algorithm === "wordpiece"
+                    ? "WordPiece turns words it can't match into [UNK]."
+                    : "How the encoder spells characters outside the vocabulary."}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Pair Counting
+                </label>
+                <Select
+                  value={trainingMode}
+                  onValueChange={(val) => {
+                    setTrainingMode(val as TrainingMode);
+                    handleReset();
+                  }}
+                  disabled={currentModel.algorithm === "unigram"}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="words">
+                      Within words (word-frequency table)
+                    </SelectItem>
+                    <SelectItem value="stream">
+                      Across the whole text stream
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                <div className="text-xs text-gray-500 mt-1">
+                  {currentModel.algorithm === "unigram"
+                    ? "Unigram scores whole segmentations of each word, so it always works within words."
+                    : trainingMode === "words"
+                    ? "Pairs are counted inside each word, weighted by word frequency, as in Sennrich et al."
+                    : "Pairs spanning word boundaries are counted and can be merged."}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Trainer Algorithm
+                </label>
+                <Select
+                  value={trainer}
+                  onValueChange={(val) => {
+                    setTrainer(val as TrainerKind);
+                    handleReset();
+                  }}
+                  disabled={currentModel.algorithm !== "bpe"}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="incremental">
+                      Incremental counts + priority queue
+                    </SelectItem>
+                    <SelectItem value="naive">
+                      Naive recount every merge
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                <div className="text-xs text-gray-500 mt-1">
+                  {currentModel.algorithm === "wordpiece"
+                    ? "WordPiece scores depend on symbol counts that change with every merge, so it always recounts."
+                    : currentModel.algorithm === "unigram"
+                    ? "Unigram runs EM over every segmentation lattice and prunes the vocabulary instead of merging pairs."
+                    : trainer === "incremental"
+                    ? "Only pairs next to merge sites are recounted, fast enough for large corpora."
+                    : "Every pair is recounted before each merge, the textbook algorithm."}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Tie-breaking
+                </label>
+                <Select
+                  value={tieBreak}
+                  onValueChange={(val) => {
+                    setTieBreak(val as TieBreakPolicy);
+                    handleReset();
+                  }}
+                  disabled={currentModel.algorithm === "unigram"}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TIE_BREAK_LABELS).map(([kind, label]) => (
+                      <SelectItem key={kind} value={kind}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="text-xs text-gray-500 mt-1">
+                  Decides between pairs with the same{" "}
+                  {currentModel.algorithm === "wordpiece"
+                    ? "score"
+                    : "frequency"}
+                  ; reproducing a reference trainer exactly depends on it.
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Stopping Criteria
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {STOPPING_FIELDS.map(({ key, label, step }) => (
+                    <div key={key}>
+                      <div className="text-xs text-gray-600 mb-1">{label}</div>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={step}
+                        placeholder="Off"
+                        value={
+                          key === "timeBudgetMs"
+                            ? stopping.timeBudgetMs === undefined
+                              ? ""
+                              : stopping.timeBudgetMs / 1000
+                            : stopping[key] ?? ""
+                        }
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          const limit = value > 0 ? value : undefined;
+                          setStopping((current) => ({
+                            ...current,
+                            [key]:
+                              key === "minPairFrequency"
+                                ? Math.max(1, Math.floor(limit ?? 1))
+                                : key === "timeBudgetMs" && limit !== undefined
+                                ? limit * 1000
+                                : limit,
+                          }));
+                          handleReset();
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {currentModel.algorithm === "unigram"
+                    ? "Unigram always prunes down to the vocabulary size; these apply to merge-based training."
+                    : "Training ends at the first limit reached; empty fields are off."}
+                </div>
+              </div>
+
+              {currentModel.algorithm === "wordpiece" && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">
+                    Max Input Chars per Word
+                  </label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={maxInputCharsPerWord}
+                    onChange={(e) =>
+                      setMaxInputCharsPerWord(
+                        Math.max(1, parseInt(e.target.value) || 1)
+                      )
+                    }
+                  />
+                  <div className="text-xs text-gray-500 mt-1">
+                    Longer words are encoded as a single [UNK] token
+                  </div>
                 </div>
               )}
 
@@ -784,12 +1718,66 @@ const BPEPlayground = () => {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
+              {isTraining && (
+                <div className="bg-gradient-to-r from-yellow-50 to-orange-50 p-4 rounded-lg border border-yellow-200">
+                  <div className="flex justify-between items-center text-sm mb-2">
+                    <span className="font-medium text-yellow-800 flex items-center gap-2">
+                      <Cpu className="w-4 h-4" />
+                      Training in background
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={cancelTraining}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                  {trainingProgress && (
+                    <>
+                      <Progress
+                        value={
+                          trainingProgress.totalSteps > 0
+                            ? (trainingProgress.step /
+                                trainingProgress.totalSteps) *
+                              100
+                            : 0
+                        }
+                        className="h-2 mb-2"
+                      />
+                      <div className="text-xs text-yellow-700">
+                        Step {trainingProgress.step} of at most{" "}
+                        {trainingProgress.totalSteps}
+                        {trainingProgress.pair &&
+                          ` • merging "${trainingProgress.pair[0]}" + "${trainingProgress.pair[1]}"`}
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {trainingError && (
+                <div className="bg-red-50 p-4 rounded-lg border border-red-200 text-sm text-red-700 flex items-start gap-2">
+                  <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>
+                    Training failed: {trainingError}. The results below may be
+                    partial or from an earlier run.
+                  </span>
+                </div>
+              )}
+
               <div>
                 <div className="flex justify-between text-sm mb-2">
                   <span>Step {currentStep}</span>
                   <span>{bpeResult.steps.length - 1} total</span>
                 </div>
                 <Progress value={progress} className="h-3" />
+                {!isTraining && !trainingError && bpeResult.stopReason && (
+                  <div className="text-xs text-gray-500 mt-2 flex items-center gap-1">
+                    <Info className="w-3 h-3" />
+                    Training ended: {STOP_REASON_LABELS[bpeResult.stopReason]}
+                  </div>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -829,12 +1817,66 @@ const BPEPlayground = () => {
                     </Badge>
                     <span className="text-gray-400">→</span>
                     <Badge className="bg-blue-600 text-white">
-                      {currentBPEStep.mostFrequentPair[0] +
-                        currentBPEStep.mostFrequentPair[1]}
+                      {currentBPEStep.newToken}
                     </Badge>
                   </div>
                   <div className="text-xs text-gray-600 space-y-1">
                     <div>Frequency: {currentBPEStep.frequency} occurrences</div>
+                    <div>
+                      Tie-break: {TIE_BREAK_LABELS[bpeResult.config.tieBreak]}
+                    </div>
+                    {currentBPEStep.score !== undefined && (
+                      <div>
+                        WordPiece score: {currentBPEStep.score.toExponential(3)}
+                      </div>
+                    )}
+                    <div>
+                      Compression Ratio:{" "}
+                      {currentBPEStep.compressionRatio.toFixed(2)}x
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {currentBPEStep.round && (
+                <div className="bg-gradient-to-r from-blue-50 to-purple-50 p-4 rounded-lg border">
+                  <h4 className="font-medium mb-3 text-blue-700 flex items-center gap-2">
+                    <Workflow className="w-4 h-4" />
+                    {UNIGRAM_PHASE_LABELS[currentBPEStep.round.phase]}
+                  </h4>
+                  {currentBPEStep.round.removed.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1 text-sm mb-3">
+                      {currentBPEStep.round.removed
+                        .slice(0, MAX_REMOVED_PIECES)
+                        .map((piece) => (
+                          <Badge
+                            key={piece}
+                            variant="outline"
+                            className="bg-red-50 text-red-700 line-through"
+                          >
+                            {piece}
+                          </Badge>
+                        ))}
+                      {currentBPEStep.round.removed.length >
+                        MAX_REMOVED_PIECES && (
+                        <span className="text-xs text-gray-500">
+                          +
+                          {currentBPEStep.round.removed.length -
+                            MAX_REMOVED_PIECES}{" "}
+                          more
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-600 space-y-1">
+                    <div>
+                      Pieces: {currentBPEStep.round.pieces.length}
+                      {currentBPEStep.round.removed.length > 0 &&
+                        ` (${currentBPEStep.round.removed.length} pruned)`}
+                    </div>
+                    <div>
+                      Loss: {currentBPEStep.round.loss.toFixed(3)} nats per word
+                    </div>
                     <div>
                       Compression Ratio:{" "}
                       {currentBPEStep.compressionRatio.toFixed(2)}x
@@ -868,18 +1910,19 @@ const BPEPlayground = () => {
                   Compression Progress
                 </h5>
                 <div className="flex items-end gap-1 h-12">
-                  {compressionHistory.slice(0, 20).map((ratio, i) => (
+                  {compressionChart.bars.map(({ step, ratio }) => (
                     <div
-                      key={i}
+                      key={step}
                       className={`flex-1 bg-gradient-to-t from-purple-400 to-purple-600 rounded-sm ${
-                        i === currentStep ? "opacity-100" : "opacity-60"
+                        currentStep >= step &&
+                        currentStep < step + compressionChart.stride
+                          ? "opacity-100"
+                          : "opacity-60"
                       }`}
                       style={{
-                        height: `${
-                          (ratio / Math.max(...compressionHistory)) * 100
-                        }%`,
+                        height: `${(ratio / compressionChart.maxRatio) * 100}%`,
                       }}
-                      title={`Step ${i}: ${ratio.toFixed(2)}x`}
+                      title={`Step ${step}: ${ratio.toFixed(2)}x`}
                     />
                   ))}
                 </div>
@@ -907,7 +1950,9 @@ const BPEPlayground = () => {
                   <div className="flex items-center gap-2 mb-2">
                     <Hash className="w-4 h-4 text-emerald-600" />
                     <span className="text-sm font-medium text-emerald-700">
-                      Total Merges
+                      {currentModel.algorithm === "unigram"
+                        ? "Training Rounds"
+                        : "Total Merges"}
                     </span>
                   </div>
                   <div className="text-2xl font-bold text-emerald-600">
@@ -976,6 +2021,34 @@ const BPEPlayground = () => {
                 </div>
               </div>
 
+              {/* Round-trip Check */}
+              {inputRoundTrip && (
+                <div className="mt-6 bg-white/70 backdrop-blur-sm rounded-xl p-6 border border-gray-200">
+                  <h4 className="font-semibold mb-2 flex items-center gap-2">
+                    {inputRoundTrip.lossless ? (
+                      <CheckCircle2 className="w-4 h-4 text-green-600" />
+                    ) : (
+                      <AlertCircle className="w-4 h-4 text-red-600" />
+                    )}
+                    Round Trip: {inputRoundTrip.lossless ? "Lossless" : "Lossy"}
+                  </h4>
+                  <div className="text-xs text-gray-500 mb-3">
+                    {inputRoundTrip.lossless
+                      ? "decode(encode(text)) reproduces the input exactly."
+                      : `decode(encode(text)) differs from the input: text removed by the tokenizer is struck through, text it introduced is underlined.${
+                          inputText.length > MAX_DIFF_CHARS
+                            ? ` Showing the first ${MAX_DIFF_CHARS} characters.`
+                            : ""
+                        }`}
+                  </div>
+                  {!inputRoundTrip.lossless && (
+                    <div className="font-mono text-xs whitespace-pre-wrap break-all bg-gray-50 p-3 rounded-lg border border-gray-200 max-h-48 overflow-y-auto">
+                      {renderDiff(inputRoundTrip.diff)}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Detailed Statistics Table */}
               <div className="mt-6 bg-white/70 backdrop-blur-sm rounded-xl p-6 border border-gray-200">
                 <h4 className="font-semibold mb-4 flex items-center gap-2">
@@ -987,7 +2060,11 @@ const BPEPlayground = () => {
                     <thead>
                       <tr className="border-b border-gray-200">
                         <th className="text-left p-2">Step</th>
-                        <th className="text-left p-2">Merged Pair</th>
+                        <th className="text-left p-2">
+                          {currentModel.algorithm === "unigram"
+                            ? "Round"
+                            : "Merged Pair"}
+                        </th>
                         <th className="text-left p-2">Frequency</th>
                         <th className="text-left p-2">Tokens</th>
                         <th className="text-left p-2">Vocab Size</th>
@@ -995,39 +2072,58 @@ const BPEPlayground = () => {
                       </tr>
                     </thead>
                     <tbody>
-                      {bpeResult.steps.slice(0, 10).map((step, i) => (
-                        <tr
-                          key={i}
-                          className={`border-b border-gray-100 ${
-                            i === currentStep ? "bg-blue-100" : ""
-                          }`}
-                        >
-                          <td className="p-2 font-medium">{step.iteration}</td>
-                          <td className="p-2">
-                            {step.mostFrequentPair ? (
-                              <span className="text-xs">
-                                {step.mostFrequentPair[0]} +{" "}
-                                {step.mostFrequentPair[1]}
-                              </span>
-                            ) : (
-                              "-"
-                            )}
-                          </td>
-                          <td className="p-2">{step.frequency || "-"}</td>
-                          <td className="p-2">{step.mergedTokens.length}</td>
-                          <td className="p-2">{step.vocabulary.length}</td>
-                          <td className="p-2">
-                            {step.compressionRatio.toFixed(2)}x
-                          </td>
-                        </tr>
-                      ))}
+                      {bpeResult.steps
+                        .slice(stepTableStart, stepTableStart + STEP_TABLE_ROWS)
+                        .map((step) => (
+                          <tr
+                            key={step.iteration}
+                            className={`border-b border-gray-100 ${
+                              step.iteration === currentStep
+                                ? "bg-blue-100"
+                                : ""
+                            }`}
+                          >
+                            <td className="p-2 font-medium">
+                              {step.iteration}
+                            </td>
+                            <td className="p-2">
+                              {step.rule ? (
+                                <span className="text-xs">
+                                  {step.rule.pair[0]} + {step.rule.pair[1]}
+                                </span>
+                              ) : step.round ? (
+                                <span className="text-xs">
+                                  {UNIGRAM_PHASE_LABELS[step.round.phase]}
+                                </span>
+                              ) : (
+                                "-"
+                              )}
+                            </td>
+                            <td className="p-2">{step.frequency || "-"}</td>
+                            <td className="p-2">{step.tokenCount}</td>
+                            <td className="p-2">
+                              {step.round
+                                ? step.round.pieces.length +
+                                  bpeResult.config.specialTokens.length
+                                : bpeResult.initial.vocabulary.length +
+                                  step.iteration}
+                            </td>
+                            <td className="p-2">
+                              {step.compressionRatio.toFixed(2)}x
+                            </td>
+                          </tr>
+                        ))}
                     </tbody>
                   </table>
                 </div>
-                {bpeResult.steps.length > 10 && (
+                {bpeResult.steps.length > STEP_TABLE_ROWS && (
                   <div className="text-xs text-gray-500 mt-2 text-center">
-                    Showing first 10 steps of {bpeResult.steps.length} total
-                    steps
+                    Showing steps {stepTableStart}–
+                    {Math.min(
+                      stepTableStart + STEP_TABLE_ROWS,
+                      bpeResult.steps.length
+                    ) - 1}{" "}
+                    of {bpeResult.steps.length} total steps
                   </div>
                 )}
               </div>
@@ -1055,15 +2151,12 @@ const BPEPlayground = () => {
                 <div className="bg-gradient-to-r from-gray-50 to-blue-50 p-6 rounded-xl border border-gray-200 min-h-[150px]">
                   <div className="flex flex-wrap gap-2">
                     {currentBPEStep.mergedTokens.map((token, index) => {
-                      const isSpecialToken =
-                        currentModel.specialTokens.includes(token);
+                      const isSpecialToken = specialTokens.includes(token);
                       const isEndToken =
                         token.includes("</w>") || token.includes("##");
                       const isNewlyMerged =
-                        currentBPEStep.mostFrequentPair &&
-                        token ===
-                          currentBPEStep.mostFrequentPair[0] +
-                            currentBPEStep.mostFrequentPair[1];
+                        currentBPEStep.newToken !== null &&
+                        token === currentBPEStep.newToken;
 
                       return (
                         <Badge
@@ -1085,7 +2178,7 @@ const BPEPlayground = () => {
                               : "bg-gray-100 text-gray-700 border-gray-200"
                           }`}
                         >
-                          {token.replace("</w>", "●").replace("##", "##")}
+                          {renderToken(token)}
                         </Badge>
                       );
                     })}
@@ -1131,7 +2224,7 @@ const BPEPlayground = () => {
                         Special:{" "}
                         {
                           currentBPEStep.mergedTokens.filter((t) =>
-                            currentModel.specialTokens.includes(t)
+                            specialTokens.includes(t)
                           ).length
                         }
                       </div>
@@ -1148,7 +2241,7 @@ const BPEPlayground = () => {
                         {
                           currentBPEStep.mergedTokens.filter(
                             (t) =>
-                              !currentModel.specialTokens.includes(t) &&
+                              !specialTokens.includes(t) &&
                               !t.includes("##") &&
                               !t.includes("</w>")
                           ).length
@@ -1185,8 +2278,8 @@ const BPEPlayground = () => {
                     {
                       currentBPEStep.vocabulary.filter(
                         (token) =>
-                          token.length === 1 ||
-                          currentModel.specialTokens.includes(token)
+                          baseSymbols.has(token) ||
+                          specialTokens.includes(token)
                       ).length
                     }
                     )
@@ -1196,8 +2289,8 @@ const BPEPlayground = () => {
                       {currentBPEStep.vocabulary
                         .filter(
                           (token) =>
-                            token.length === 1 ||
-                            currentModel.specialTokens.includes(token)
+                            baseSymbols.has(token) ||
+                            specialTokens.includes(token)
                         )
                         .slice(0, 25)
                         .map((token, index) => (
@@ -1205,22 +2298,20 @@ const BPEPlayground = () => {
                             key={`char-${index}`}
                             variant="outline"
                             className={`text-xs ${
-                              currentModel.specialTokens.includes(token)
+                              specialTokens.includes(token)
                                 ? "bg-red-100 text-red-700 border-red-200"
                                 : "bg-blue-100 text-blue-700 border-blue-200"
                             }`}
                           >
-                            {currentModel.specialTokens.includes(token)
+                            {specialTokens.includes(token)
                               ? token
-                              : token === "</w>"
-                              ? "●"
-                              : token}
+                              : renderToken(token)}
                           </Badge>
                         ))}
                       {currentBPEStep.vocabulary.filter(
                         (token) =>
-                          token.length === 1 ||
-                          currentModel.specialTokens.includes(token)
+                          baseSymbols.has(token) ||
+                          specialTokens.includes(token)
                       ).length > 25 && (
                         <Badge
                           variant="outline"
@@ -1229,8 +2320,8 @@ const BPEPlayground = () => {
                           +
                           {currentBPEStep.vocabulary.filter(
                             (token) =>
-                              token.length === 1 ||
-                              currentModel.specialTokens.includes(token)
+                              baseSymbols.has(token) ||
+                              specialTokens.includes(token)
                           ).length - 25}{" "}
                           more
                         </Badge>
@@ -1249,8 +2340,8 @@ const BPEPlayground = () => {
                     {
                       currentBPEStep.vocabulary.filter(
                         (token) =>
-                          token.length > 1 &&
-                          !currentModel.specialTokens.includes(token)
+                          !baseSymbols.has(token) &&
+                          !specialTokens.includes(token)
                       ).length
                     }
                     )
@@ -1260,16 +2351,14 @@ const BPEPlayground = () => {
                       {currentBPEStep.vocabulary
                         .filter(
                           (token) =>
-                            token.length > 1 &&
-                            !currentModel.specialTokens.includes(token)
+                            !baseSymbols.has(token) &&
+                            !specialTokens.includes(token)
                         )
                         .slice(0, 20)
                         .map((token, index) => {
                           const isNewlyLearned =
-                            currentBPEStep.mostFrequentPair &&
-                            token ===
-                              currentBPEStep.mostFrequentPair[0] +
-                                currentBPEStep.mostFrequentPair[1];
+                            currentBPEStep.newToken !== null &&
+                            token === currentBPEStep.newToken;
                           return (
                             <Badge
                               key={`merged-${index}`}
@@ -1279,21 +2368,21 @@ const BPEPlayground = () => {
                                   : "bg-green-100 text-green-700 border-green-200"
                               }`}
                             >
-                              {token.replace("</w>", "●").replace("##", "##")}
+                              {renderToken(token)}
                             </Badge>
                           );
                         })}
                       {currentBPEStep.vocabulary.filter(
                         (token) =>
-                          token.length > 1 &&
-                          !currentModel.specialTokens.includes(token)
+                          !baseSymbols.has(token) &&
+                          !specialTokens.includes(token)
                       ).length > 20 && (
                         <Badge className="text-xs bg-green-100 text-green-700 border-green-200">
                           +
                           {currentBPEStep.vocabulary.filter(
                             (token) =>
-                              token.length > 1 &&
-                              !currentModel.specialTokens.includes(token)
+                              !baseSymbols.has(token) &&
+                              !specialTokens.includes(token)
                           ).length - 20}{" "}
                           more
                         </Badge>
@@ -1346,6 +2435,447 @@ const BPEPlayground = () => {
             </CardContent>
           </Card>
         </div>
+
+        {/* Encode Held-out Text */}
+        <Card className="shadow-xl mt-8 border-0 bg-white/90 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Code2 className="w-5 h-5 text-indigo-600" />
+              Encode
+              <Badge
+                variant="outline"
+                className="ml-2 bg-indigo-50 text-indigo-700"
+              >
+                {settledResult.finalVocabulary.length} tokens in vocabulary
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              value={heldOutText}
+              onChange={(e) => setHeldOutText(e.target.value)}
+              placeholder="Type or paste text the tokenizer was not trained on..."
+              className="min-h-[100px] resize-none text-sm"
+            />
+            {currentModel.algorithm === "bpe" && (
+              <div className="grid md:grid-cols-3 gap-4">
+                <div>
+                  <label className="text-sm font-medium mb-2 block">
+                    BPE-dropout: {dropout.toFixed(2)}
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={dropout}
+                    onChange={(e) => setDropout(parseFloat(e.target.value))}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">
+                    Random Seed
+                  </label>
+                  <Input
+                    type="number"
+                    value={dropoutSeed}
+                    onChange={(e) =>
+                      setDropoutSeed(parseInt(e.target.value) || 0)
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">
+                    Samples
+                  </label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_SAMPLES}
+                    value={sampleCount}
+                    onChange={(e) =>
+                      setSampleCount(
+                        Math.min(
+                          MAX_SAMPLES,
+                          Math.max(1, parseInt(e.target.value) || 1)
+                        )
+                      )
+                    }
+                  />
+                </div>
+              </div>
+            )}
+            <div className="text-xs text-gray-500">
+              {isTraining &&
+                "Showing the last trained tokenizer until training finishes. "}
+              {currentModel.algorithm === "bpe"
+                ? "Learned merges are applied by rank, lowest first, as in GPT-2's bpe()."
+                : currentModel.algorithm === "wordpiece"
+                ? "Each word is matched greedily against the longest vocabulary entry."
+                : "Each word takes its most likely segmentation under the piece probabilities."}
+            </div>
+            <div className="bg-gradient-to-r from-gray-50 to-indigo-50 p-4 rounded-xl border border-gray-200 min-h-[80px]">
+              <div className="flex flex-wrap gap-2">
+                {heldOutEncoding.tokens.map((token, index) => (
+                  <Badge
+                    key={`${token}-${index}`}
+                    variant="outline"
+                    className={`text-xs flex items-center gap-1 ${
+                      heldOutEncoding.ids[index] < 0
+                        ? "bg-red-100 text-red-700 border-red-200"
+                        : isFallbackToken(token)
+                        ? "bg-amber-100 text-amber-700 border-amber-300"
+                        : "bg-indigo-100 text-indigo-700 border-indigo-200"
+                    }`}
+                    title={
+                      heldOutEncoding.ids[index] < 0
+                        ? "Not in the vocabulary"
+                        : isFallbackToken(token)
+                        ? `Fallback for an unknown character, ID ${heldOutEncoding.ids[index]}`
+                        : `ID ${heldOutEncoding.ids[index]}`
+                    }
+                  >
+                    {renderToken(token)}
+                    <span className="text-[10px] opacity-60">
+                      {heldOutEncoding.ids[index]}
+                    </span>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4 text-xs text-gray-600">
+              <div>
+                Tokens: {heldOutEncoding.tokens.length} • Characters per token:{" "}
+                {(
+                  heldOutText.length / (heldOutEncoding.tokens.length || 1)
+                ).toFixed(2)}
+              </div>
+              <div className="font-mono break-all">
+                IDs: [{heldOutEncoding.ids.join(", ")}]
+              </div>
+            </div>
+
+            {sampledSegmentations.length > 0 && (
+              <div className="bg-gradient-to-r from-amber-50 to-orange-50 p-4 rounded-xl border border-amber-200">
+                <h5 className="text-sm font-medium mb-1 text-amber-700">
+                  Sampled Segmentations
+                </h5>
+                <div className="text-xs text-amber-600 mb-3">
+                  {sampledSegmentations.length} distinct out of {sampleCount}{" "}
+                  samples with p = {activeDropout.toFixed(2)}, seed{" "}
+                  {dropoutSeed}
+                </div>
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                  {sampledSegmentations.map((sample, index) => (
+                    <div key={index} className="flex items-start gap-2">
+                      <Badge className="bg-amber-600 text-white text-xs shrink-0">
+                        {sample.count}/{sampleCount}
+                      </Badge>
+                      <div className="flex flex-wrap gap-1">
+                        {sample.tokens.map((token, i) => (
+                          <Badge
+                            key={`${token}-${i}`}
+                            variant="outline"
+                            className="text-xs bg-white text-gray-700 border-amber-200"
+                          >
+                            {renderToken(token)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Pretrained Tokenizer */}
+        <Card className="shadow-xl mt-8 border-0 bg-white/90 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="w-5 h-5 text-teal-600" />
+              Pretrained Tokenizer
+              {pretrained && (
+                <Badge
+                  variant="outline"
+                  className="ml-2 bg-teal-50 text-teal-700"
+                >
+                  {pretrained.tokenizer.finalVocabulary.length} tokens •{" "}
+                  {pretrained.tokenizer.config.algorithm === "unigram"
+                    ? `${
+                        pretrained.tokenizer.pieces?.length ?? 0
+                      } scored pieces`
+                    : `${pretrained.tokenizer.mergingRules.length} merges`}
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <label
+              className={`block border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-colors ${
+                isDraggingFiles
+                  ? "border-teal-500 bg-teal-50"
+                  : "border-gray-300 hover:border-teal-400"
+              }`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDraggingFiles(true);
+              }}
+              onDragLeave={() => setIsDraggingFiles(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setIsDraggingFiles(false);
+                importPretrained(Array.from(e.dataTransfer.files));
+              }}
+            >
+              <input
+                type="file"
+                multiple
+                accept=".json,.txt,.bpe,.tiktoken,.model"
+                className="hidden"
+                onChange={(e) => {
+                  importPretrained(Array.from(e.target.files ?? []));
+                  e.target.value = "";
+                }}
+              />
+              <Upload className="w-6 h-6 mx-auto mb-2 text-gray-400" />
+              <div className="text-sm font-medium">
+                {pretrained
+                  ? pretrained.name
+                  : "Drop a SentencePiece .model or .tiktoken file, or vocab.json and merges.txt, here or click to pick them"}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                Files stay in the browser; the held-out text above is encoded
+                with them
+              </div>
+            </label>
+            {importError && (
+              <div className="text-xs text-red-600 flex items-center gap-1">
+                <AlertCircle className="w-3 h-3" />
+                {importError}
+              </div>
+            )}
+
+            {pretrainedTokenizer && pretrainedEncoding && (
+              <>
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">
+                      Pre-tokenizer
+                    </label>
+                    <Select
+                      value={pretrainedPreTokenizer}
+                      onValueChange={(val) => {
+                        setPretrainedPreTokenizer(val as PreTokenizerKind);
+                        setTracedChunk(0);
+                        setTraceStep(0);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PRE_TOKENIZER_LABELS).map(
+                          ([kind, label]) => (
+                            <SelectItem key={kind} value={kind}>
+                              {label}
+                            </SelectItem>
+                          )
+                        )}
+                      </SelectContent>
+                    </Select>
+                    {pretrainedPreTokenizer === "custom" && (
+                      <div className="mt-2">
+                        <Input
+                          value={pretrainedPattern}
+                          onChange={(e) => {
+                            setPretrainedPattern(e.target.value);
+                            setTracedChunk(0);
+                            setTraceStep(0);
+                          }}
+                          placeholder="Regular expression, e.g. \w+|[^\w\s]+"
+                          className="font-mono text-sm"
+                        />
+                        {pretrainedPatternError && (
+                          <div className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                            <AlertCircle className="w-3 h-3" />
+                            {pretrainedPatternError} — using the imported
+                            pre-tokenizer instead
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">
+                      Special Tokens
+                    </label>
+                    <Textarea
+                      value={pretrainedSpecialTokens}
+                      onChange={(e) => {
+                        setPretrainedSpecialTokens(e.target.value);
+                        setTracedChunk(0);
+                        setTraceStep(0);
+                      }}
+                      placeholder="One token and ID per line, e.g. <|endoftext|> 50256"
+                      className="min-h-[80px] resize-none font-mono text-xs"
+                    />
+                    {parsedSpecialTokens.error && (
+                      <div className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                        <AlertCircle className="w-3 h-3" />
+                        {parsedSpecialTokens.error} — keeping the imported
+                        special tokens
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <div className="text-xs text-gray-600">
+                  {describePretrained(pretrainedTokenizer.config)}
+                  {pretrainedTokenizer.config.normalizer &&
+                    ` • Normalizer: ${
+                      normalizerStages(pretrainedTokenizer.config.normalizer)
+                        .map((stage) => stage.name)
+                        .join(", ") || "none"
+                    }`}
+                </div>
+
+                <div className="bg-gradient-to-r from-gray-50 to-teal-50 p-4 rounded-xl border border-gray-200 min-h-[80px]">
+                  <div className="flex flex-wrap gap-2">
+                    {pretrainedEncoding.tokens.map((token, index) => (
+                      <Badge
+                        key={`${token}-${index}`}
+                        variant="outline"
+                        className={`text-xs flex items-center gap-1 ${
+                          pretrainedEncoding.ids[index] < 0
+                            ? "bg-red-100 text-red-700 border-red-200"
+                            : isFallbackToken(token)
+                            ? "bg-amber-100 text-amber-700 border-amber-300"
+                            : "bg-teal-100 text-teal-700 border-teal-200"
+                        }`}
+                        title={pretrainedTokenTitle(
+                          token,
+                          pretrainedEncoding.ids[index]
+                        )}
+                      >
+                        {renderToken(token)}
+                        <span className="text-[10px] opacity-60">
+                          {pretrainedEncoding.ids[index]}
+                        </span>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="text-xs text-gray-600 font-mono break-all">
+                  {pretrainedEncoding.tokens.length} tokens • IDs: [
+                  {pretrainedEncoding.ids.join(", ")}]
+                </div>
+
+                {pretrainedTokenizer.config.algorithm === "bpe" && (
+                  <div>
+                    <h5 className="text-sm font-medium mb-2">Merge Steps</h5>
+                    <div className="text-xs text-gray-500 mb-2">
+                      Pick a pre-tokenized chunk to replay its merges in rank
+                      order
+                    </div>
+                    <div className="flex flex-wrap gap-1 mb-3 max-h-24 overflow-y-auto">
+                      {pretrainedChunks
+                        .slice(0, MAX_PREVIEW_CHUNKS)
+                        .map((chunk, index) => (
+                          <Badge
+                            key={`${chunk}-${index}`}
+                            variant="outline"
+                            className={`text-xs cursor-pointer whitespace-pre ${
+                              index === tracedChunk
+                                ? "bg-teal-600 text-white border-teal-600"
+                                : "bg-white text-gray-700 border-gray-200"
+                            }`}
+                            onClick={() => {
+                              setTracedChunk(index);
+                              setTraceStep(0);
+                            }}
+                          >
+                            {renderToken(chunk)}
+                          </Badge>
+                        ))}
+                    </div>
+                    {mergeTrace && (
+                      <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 space-y-3">
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setTraceStep(shownTraceStep - 1)}
+                            disabled={shownTraceStep === 0}
+                          >
+                            Previous
+                          </Button>
+                          <input
+                            type="range"
+                            min="0"
+                            max={mergeTrace.steps.length}
+                            value={shownTraceStep}
+                            onChange={(e) =>
+                              setTraceStep(parseInt(e.target.value))
+                            }
+                            className="flex-1"
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setTraceStep(shownTraceStep + 1)}
+                            disabled={
+                              shownTraceStep === mergeTrace.steps.length
+                            }
+                          >
+                            Next
+                          </Button>
+                        </div>
+                        <div className="text-xs text-gray-600">
+                          {shownTraceStep === 0 ? (
+                            `Initial symbols • ${mergeTrace.steps.length} merges apply`
+                          ) : (
+                            <>
+                              Step {shownTraceStep}/{mergeTrace.steps.length}:
+                              rank {mergeTrace.steps[shownTraceStep - 1].rank}{" "}
+                              merges{" "}
+                              <span className="font-mono">
+                                {renderToken(
+                                  mergeTrace.steps[shownTraceStep - 1].rule
+                                    .pair[0]
+                                )}{" "}
+                                +{" "}
+                                {renderToken(
+                                  mergeTrace.steps[shownTraceStep - 1].rule
+                                    .pair[1]
+                                )}
+                              </span>
+                            </>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {(shownTraceStep === 0
+                            ? mergeTrace.symbols
+                            : mergeTrace.steps[shownTraceStep - 1].tokens
+                          ).map((token, index) => (
+                            <Badge
+                              key={`${token}-${index}`}
+                              variant="outline"
+                              className="text-xs bg-white text-teal-700 border-teal-200"
+                            >
+                              {renderToken(token)}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
       </div>
 
       {/* Enhanced Credits and Resources Section */}
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  initialState,
+  initialStep,
+  summarize,
+  type BPEConfig,
+  type BPEInitialState,
+  type BPEResult,
+  type BPEStepDelta,
+  type StopReason,
+  type TrainWorkerRequest,
+  type TrainWorkerResponse,
+} from "@/lib/bpe";
+
+export interface TrainingProgress {
+  step: number;
+  totalSteps: number;
+  pair: [string, string] | null;
+}
+
+const createWorker = () =>
+  new Worker(new URL("../lib/bpe/train.worker.ts", import.meta.url), {
+    type: "module",
+  });
+
+// Trains in a Web Worker and streams steps back as they are produced.
+// Changing the corpus or config cancels the run in flight.
+export function useBPETraining(corpus: string, config: BPEConfig) {
+  // Until the worker reports back, show the untrained segmentation
+  const [result, setResult] = useState<BPEResult>(() => {
+    const initial = initialState(corpus, config);
+    return summarize(config, initial, [initialStep(initial)]);
+  });
+  const [progress, setProgress] = useState<TrainingProgress | null>(null);
+  const [isTraining, setIsTraining] = useState(false);
+  // Why the last run failed; the result is then whatever it had produced
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    runIdRef.current++;
+    setIsTraining(false);
+  }, []);
+
+  useEffect(() => {
+    // The trainer loop is synchronous, so a busy worker can't be told to
+    // stop; terminating it is the only way to cancel
+    workerRef.current?.terminate();
+    const worker = createWorker();
+    workerRef.current = worker;
+    const id = ++runIdRef.current;
+    let initial: BPEInitialState | null = null;
+    let steps: BPEStepDelta[] = [];
+    let stopReason: StopReason | undefined;
+    let frame = 0;
+
+    const flush = () => {
+      frame = 0;
+      if (initial && steps.length > 0) {
+        setResult(summarize(config, initial, steps, stopReason));
+      }
+    };
+
+    const fail = (message: string) => {
+      setError(message);
+      setProgress(null);
+      setIsTraining(false);
+    };
+
+    worker.onmessage = (event: MessageEvent<TrainWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== runIdRef.current) return;
+
+      switch (message.type) {
+        case "start":
+          initial = message.initial;
+          break;
+        case "steps":
+          steps = steps.concat(message.steps);
+          if (!frame) frame = requestAnimationFrame(flush);
+          break;
+        case "progress":
+          setProgress({
+            step: message.step,
+            totalSteps: message.totalSteps,
+            pair: message.pair,
+          });
+          break;
+        case "done":
+          cancelAnimationFrame(frame);
+          stopReason = message.stopReason;
+          flush();
+          setProgress(null);
+          setIsTraining(false);
+          break;
+        case "error":
+          fail(message.message);
+          break;
+      }
+    };
+
+    // Failures outside the trainer, such as the script not loading, never
+    // reach the worker's own error reporting
+    worker.onerror = (event) => {
+      event.preventDefault();
+      if (id !== runIdRef.current) return;
+      worker.terminate();
+      fail(event.message || "The training worker could not run");
+    };
+    worker.onmessageerror = () => {
+      if (id !== runIdRef.current) return;
+      worker.terminate();
+      fail("A message from the training worker could not be read");
+    };
+
+    setIsTraining(true);
+    setProgress(null);
+    setError(null);
+    worker.postMessage({
+      type: "train",
+      id,
+      corpus,
+      config,
+    } satisfies TrainWorkerRequest);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+    };
+  }, [corpus, config]);
+
+  return { result, progress, isTraining, error, cancel };
+}
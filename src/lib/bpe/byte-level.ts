@@ -0,0 +1,36 @@
+// GPT-2's bytes_to_unicode(): every byte gets a printable stand-in so
+// byte sequences can be merged as strings. Printable Latin-1 bytes map to
+// themselves, the rest (controls, space, ...) are shifted past U+0100,
+// which is why a space shows up as "Ġ" and a newline as "Ċ".
+const buildByteTable = (): string[] => {
+  const table: string[] = new Array(256);
+  let shifted = 0;
+  for (let byte = 0; byte < 256; byte++) {
+    const printable =
+      (byte >= 0x21 && byte <= 0x7e) ||
+      (byte >= 0xa1 && byte <= 0xac) ||
+      (byte >= 0xae && byte <= 0xff);
+    table[byte] = String.fromCharCode(printable ? byte : 256 + shifted++);
+  }
+  return table;
+};
+
+export const BYTE_TO_UNICODE = buildByteTable();
+
+const UNICODE_TO_BYTE = new Map(
+  BYTE_TO_UNICODE.map((symbol, byte) => [symbol, byte])
+);
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const textToByteSymbols = (text: string): string[] =>
+  Array.from(encoder.encode(text), (byte) => BYTE_TO_UNICODE[byte]);
+
+// Invalid UTF-8 (e.g. a token ending mid-character) decodes to U+FFFD
+export const byteSymbolsToText = (symbols: string): string => {
+  const bytes = Array.from(symbols, (symbol) => UNICODE_TO_BYTE.get(symbol));
+  return decoder.decode(
+    Uint8Array.from(bytes.filter((byte) => byte !== undefined))
+  );
+};
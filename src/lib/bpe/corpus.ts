@@ -0,0 +1,177 @@
+import type { TieBreakPolicy } from "./types";
+
+// Map key for a pair of symbols. Prefixing the first symbol's length keeps
+// keys distinct whatever characters the symbols hold, e.g. ("|", "||") and
+// ("||", "|").
+export const pairKey = (first: string, second: string): string =>
+  `${first.length}:${first}${second}`;
+
+// Default minimum pair frequency: a pair seen only once compresses nothing
+export const MIN_PAIR_FREQUENCY = 2;
+
+export interface PairCandidate {
+  pair: [string, string];
+  frequency: number;
+  // Symbol index of the leftmost occurrence, see BPEInitialState
+  first: number;
+  // WordPiece likelihood score, see createNaiveCorpus
+  score?: number;
+}
+
+export const TIE_BREAK_LABELS: Record<TieBreakPolicy, string> = {
+  first: "First occurrence",
+  lexicographic: "Lexicographic",
+  shortest: "Shortest merged token",
+  longest: "Longest merged token",
+};
+
+const compareLexicographic = (a: PairCandidate, b: PairCandidate): number => {
+  if (a.pair[0] !== b.pair[0]) return a.pair[0] < b.pair[0] ? -1 : 1;
+  if (a.pair[1] !== b.pair[1]) return a.pair[1] < b.pair[1] ? -1 : 1;
+  return 0;
+};
+
+const mergedLength = ({ pair }: PairCandidate) =>
+  pair[0].length + pair[1].length;
+
+// Total order over candidate merges shared by every trainer, so they agree
+// on the winner: higher frequency first, then the tie-break policy. Length
+// ties fall back to lexicographic order.
+export const createPairComparator =
+  (policy: TieBreakPolicy) =>
+  (a: PairCandidate, b: PairCandidate): number => {
+    if (a.frequency !== b.frequency) return b.frequency - a.frequency;
+    switch (policy) {
+      case "first":
+        return a.first - b.first;
+      case "lexicographic":
+        return compareLexicographic(a, b);
+      case "shortest":
+        return mergedLength(a) - mergedLength(b) || compareLexicographic(a, b);
+      case "longest":
+        return mergedLength(b) - mergedLength(a) || compareLexicographic(a, b);
+    }
+  };
+
+// How many times each segment occurs in the text
+export const segmentWeights = (segments: string[][], order: number[]) => {
+  const weights = segments.map(() => 0);
+  order.forEach((s) => weights[s]++);
+  return weights;
+};
+
+export interface MergeSites {
+  // Symbol index where each merged token starts, see BPEInitialState
+  positions: number[];
+  // Merge sites weighted by how often their segment occurs
+  count: number;
+}
+
+// The mutable state a trainer merges over
+export interface TrainingCorpus {
+  bestPair: () => PairCandidate | null;
+  merge: (pair: [string, string], newToken: string) => MergeSites;
+}
+
+export type PairScoring = "frequency" | "likelihood";
+
+// Recounts every pair before each merge. Pairs never span two segments,
+// so with one segment per unique word this is the word-frequency table of
+// Sennrich et al. (2016), and with a single segment it is a flat stream.
+// "likelihood" scoring is WordPiece's: freq(ab) / (freq(a) * freq(b)),
+// which favours pairs whose parts rarely occur apart.
+export const createNaiveCorpus = (
+  segments: string[][],
+  order: number[],
+  tieBreak: TieBreakPolicy,
+  scoring: PairScoring = "frequency",
+  minFrequency = MIN_PAIR_FREQUENCY
+): TrainingCorpus => {
+  const comparePairs = createPairComparator(tieBreak);
+  const weights = segmentWeights(segments, order);
+  let offset = 0;
+  const table = segments.map((symbols, s) => {
+    const ids = symbols.map((_, i) => offset + i);
+    offset += symbols.length;
+    return { symbols, ids, count: weights[s] };
+  });
+
+  return {
+    bestPair: () => {
+      const pairCounts = new Map<string, PairCandidate>();
+      for (const { symbols, ids, count } of table) {
+        for (let i = 0; i < symbols.length - 1; i++) {
+          const key = pairKey(symbols[i], symbols[i + 1]);
+          const seen = pairCounts.get(key);
+          if (seen) {
+            seen.frequency += count;
+          } else {
+            // Segments are laid out in order, so the first sighting is
+            // leftmost
+            pairCounts.set(key, {
+              pair: [symbols[i], symbols[i + 1]],
+              frequency: count,
+              first: ids[i],
+            });
+          }
+        }
+      }
+
+      if (scoring === "frequency") {
+        let best: PairCandidate | null = null;
+        for (const candidate of pairCounts.values()) {
+          if (!best || comparePairs(candidate, best) < 0) best = candidate;
+        }
+        return best;
+      }
+
+      const symbolCounts = new Map<string, number>();
+      for (const { symbols, count } of table) {
+        for (const symbol of symbols) {
+          symbolCounts.set(symbol, (symbolCounts.get(symbol) || 0) + count);
+        }
+      }
+
+      let best: PairCandidate | null = null;
+      for (const { pair, frequency, first } of pairCounts.values()) {
+        if (frequency < minFrequency) continue;
+        const score =
+          frequency / (symbolCounts.get(pair[0]) * symbolCounts.get(pair[1]));
+        const candidate = { pair, frequency, first, score };
+        if (
+          !best ||
+          score > best.score ||
+          (score === best.score && comparePairs(candidate, best) < 0)
+        ) {
+          best = candidate;
+        }
+      }
+      return best;
+    },
+    merge: ([first, second], newToken) => {
+      const sites: MergeSites = { positions: [], count: 0 };
+      for (const entry of table) {
+        const symbols: string[] = [];
+        const ids: number[] = [];
+        for (let i = 0; i < entry.symbols.length; i++) {
+          ids.push(entry.ids[i]);
+          if (
+            i < entry.symbols.length - 1 &&
+            entry.symbols[i] === first &&
+            entry.symbols[i + 1] === second
+          ) {
+            symbols.push(newToken);
+            sites.positions.push(entry.ids[i]);
+            sites.count += entry.count;
+            i++; // Skip next token
+          } else {
+            symbols.push(entry.symbols[i]);
+          }
+        }
+        entry.symbols = symbols;
+        entry.ids = ids;
+      }
+      return sites;
+    },
+  };
+};
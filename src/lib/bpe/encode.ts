@@ -0,0 +1,369 @@
+import { byteSymbolsToText } from "./byte-level";
+import { pairKey } from "./corpus";
+import {
+  UNKNOWN_PIECE,
+  fallbackTokens,
+  resolveFallback,
+  usesFallback,
+} from "./fallback";
+import {
+  CONTINUATION_PREFIX,
+  END_OF_WORD,
+  SPACE_SYMBOL,
+  pretokenize,
+  isSpecialToken,
+  splitCharacters,
+  streamSegments,
+  wordToSymbols,
+} from "./preprocess";
+import { createRandom } from "./random";
+import type { BPEConfig, Encoding, MergeRule, Tokenizer } from "./types";
+import { viterbi } from "./unigram";
+import { encodeWordPiece } from "./wordpiece";
+
+const buildTokenIds = (vocabulary: string[]): Map<string, number> => {
+  const ids = new Map<string, number>();
+  vocabulary.forEach((token, id) => {
+    if (!ids.has(token)) ids.set(token, id);
+  });
+  return ids;
+};
+
+interface RankedMerge {
+  rank: number;
+  newToken: string;
+}
+
+const buildMergeRanks = (rules: MergeRule[]): Map<string, RankedMerge> => {
+  const ranks = new Map<string, RankedMerge>();
+  rules.forEach(({ pair, newToken }, rank) => {
+    const key = pairKey(pair[0], pair[1]);
+    if (!ranks.has(key)) ranks.set(key, { rank, newToken });
+  });
+  return ranks;
+};
+
+interface EncoderTables {
+  vocabulary: Set<string>;
+  tokenIds: Map<string, number>;
+  ranks: Map<string, RankedMerge>;
+  // Unigram only
+  pieces: Map<string, number>;
+  maxPieceLength: number;
+}
+
+const encoderTables = new WeakMap<Tokenizer, EncoderTables>();
+
+// Lookups built once per tokenizer, which never changes after training or
+// import. Large imported vocabularies would otherwise be re-indexed on
+// every keystroke and dropout sample.
+const tablesFor = (tokenizer: Tokenizer): EncoderTables => {
+  let tables = encoderTables.get(tokenizer);
+  if (tables) return tables;
+  const pieces = new Map(tokenizer.pieces);
+  // Imported vocabularies can hold pieces longer than the trainer's cap
+  let maxPieceLength = 0;
+  for (const piece of pieces.keys()) {
+    maxPieceLength = Math.max(
+      maxPieceLength,
+      splitCharacters(piece, tokenizer.config.characterUnit).length
+    );
+  }
+  tables = {
+    vocabulary: new Set(tokenizer.finalVocabulary),
+    tokenIds: buildTokenIds(tokenizer.finalVocabulary),
+    ranks: buildMergeRanks(tokenizer.mergingRules),
+    pieces,
+    maxPieceLength,
+  };
+  encoderTables.set(tokenizer, tables);
+  return tables;
+};
+
+// Replaces the pairs starting at the given sorted sites, skipping sites
+// that overlap a merge made just before
+const mergeAt = (
+  tokens: string[],
+  sites: number[],
+  newToken: string
+): string[] => {
+  const merged: string[] = [];
+  let s = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    if (s < sites.length && sites[s] === i) {
+      merged.push(newToken);
+      i++; // Skip next token
+      while (s < sites.length && sites[s] <= i) s++;
+    } else {
+      merged.push(tokens[i]);
+    }
+  }
+  return merged;
+};
+
+// GPT-2's bpe(): repeatedly merge the adjacent pair with the lowest rank,
+// every occurrence at once, until no adjacent pair has a rank. With
+// dropout, each candidate occurrence is skipped with that probability at
+// every step, and merging stops once all candidates are skipped. onMerge
+// sees the tokens after every merge.
+const mergeByRank = (
+  symbols: string[],
+  ranks: Map<string, RankedMerge>,
+  dropout = 0,
+  random: () => number = Math.random,
+  onMerge?: (merge: RankedMerge, tokens: string[]) => void
+): string[] => {
+  let tokens = symbols;
+  while (tokens.length > 1) {
+    let best: RankedMerge | null = null;
+    let sites: number[] = [];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      const merge = ranks.get(pairKey(tokens[i], tokens[i + 1]));
+      if (!merge || (dropout > 0 && random() < dropout)) continue;
+      if (!best || merge.rank < best.rank) {
+        best = merge;
+        sites = [i];
+      } else if (merge === best) {
+        sites.push(i);
+      }
+    }
+    if (!best) break;
+    tokens = mergeAt(tokens, sites, best.newToken);
+    onMerge?.(best, tokens);
+  }
+  return tokens;
+};
+
+// Characters outside the vocabulary become fallback tokens, which no
+// merge involves. SentencePiece-style models make a single <unk> of a run
+// of them, as with Unigram.
+const initialSymbols = (
+  symbols: string[],
+  vocabulary: Set<string>,
+  config: BPEConfig
+): string[] => {
+  if (!usesFallback(config)) return symbols;
+  const fuseUnknown =
+    config.unknownHandling === "unk" &&
+    (config.family === "t5" || config.family === "llama");
+  const initial: string[] = [];
+  let unknownRun = false;
+  for (const symbol of symbols) {
+    const known = vocabulary.has(symbol);
+    if (known) {
+      initial.push(symbol);
+    } else if (!fuseUnknown || !unknownRun) {
+      initial.push(...fallbackTokens(symbol, config));
+    }
+    unknownRun = !known;
+  }
+  return initial;
+};
+
+export interface EncodeOptions {
+  // BPE-dropout probability (Provilkov et al., 2020), BPE only
+  dropout?: number;
+  // Source of randomness for dropout, see createRandom
+  random?: () => number;
+}
+
+const segment = (
+  text: string,
+  tokenizer: Tokenizer,
+  { dropout = 0, random }: EncodeOptions
+): string[] => {
+  const { config } = tokenizer;
+  const { vocabulary, ranks, pieces, maxPieceLength } = tablesFor(tokenizer);
+  // Special tokens are always a single token
+  if (config.algorithm === "wordpiece") {
+    return pretokenize(text, config).flatMap((word) =>
+      isSpecialToken(word, config)
+        ? [word]
+        : encodeWordPiece(
+            word,
+            vocabulary,
+            config.maxInputCharsPerWord,
+            config.characterUnit
+          )
+    );
+  }
+  if (config.algorithm === "unigram") {
+    // Viterbi keeps unknown symbols as single tokens, which then fall back.
+    // As in SentencePiece, a run of them makes a single <unk>.
+    return pretokenize(text, config).flatMap((word) => {
+      if (isSpecialToken(word, config)) return [word];
+      const tokens: string[] = [];
+      let unknownRun = false;
+      for (const token of viterbi(
+        wordToSymbols(word, config),
+        pieces,
+        maxPieceLength
+      )) {
+        const known = pieces.has(token);
+        if (known) {
+          tokens.push(token);
+        } else if (config.unknownHandling === "byte-fallback") {
+          tokens.push(...fallbackTokens(token, config));
+        } else if (!unknownRun) {
+          tokens.push(UNKNOWN_PIECE);
+        }
+        unknownRun = !known;
+      }
+      return tokens;
+    });
+  }
+
+  const symbolsOf = (symbols: string[]) =>
+    initialSymbols(symbols, vocabulary, config);
+  if (config.trainingMode === "stream") {
+    // Stream-trained merges may cross words, so the text between special
+    // tokens is one sequence
+    return streamSegments(pretokenize(text, config), config).flatMap(
+      (symbols) => mergeByRank(symbolsOf(symbols), ranks, dropout, random)
+    );
+  }
+  if (dropout > 0) {
+    // Every occurrence of a word is sampled separately
+    return pretokenize(text, config).flatMap((word) =>
+      mergeByRank(
+        symbolsOf(wordToSymbols(word, config)),
+        ranks,
+        dropout,
+        random
+      )
+    );
+  }
+  // Words repeat a lot, so each is only merged once
+  const cache = new Map<string, string[]>();
+  return pretokenize(text, config).flatMap((word) => {
+    let tokens = cache.get(word);
+    if (!tokens) {
+      tokens = mergeByRank(symbolsOf(wordToSymbols(word, config)), ranks);
+      cache.set(word, tokens);
+    }
+    return tokens;
+  });
+};
+
+// BPE applies the learned merges by rank, lowest first; WordPiece
+// matches the longest vocabulary entry; Unigram picks the most likely
+// segmentation of each word. Characters missing from the vocabulary
+// become byte or <unk> tokens; anything else missing gets id -1.
+export const encode = (
+  text: string,
+  tokenizer: Tokenizer,
+  options: EncodeOptions = {}
+): Encoding => {
+  const tokens = segment(text, tokenizer, options);
+  const { tokenIds } = tablesFor(tokenizer);
+  return { tokens, ids: tokens.map((token) => tokenIds.get(token) ?? -1) };
+};
+
+export interface MergeTraceStep {
+  rank: number;
+  rule: MergeRule;
+  // Tokens once every occurrence of the pair is merged
+  tokens: string[];
+}
+
+export interface MergeTrace {
+  symbols: string[];
+  steps: MergeTraceStep[];
+}
+
+// The merges encode applies to one pre-tokenized chunk, lowest rank first
+export const traceMerges = (
+  chunk: string,
+  tokenizer: Tokenizer
+): MergeTrace => {
+  const { config } = tokenizer;
+  const { vocabulary, ranks } = tablesFor(tokenizer);
+  const symbols = initialSymbols(
+    wordToSymbols(chunk, config),
+    vocabulary,
+    config
+  );
+  const steps: MergeTraceStep[] = [];
+  mergeByRank(symbols, ranks, 0, Math.random, ({ rank }, tokens) =>
+    steps.push({ rank, rule: tokenizer.mergingRules[rank], tokens })
+  );
+  return { symbols, steps };
+};
+
+export interface SampledSegmentation {
+  tokens: string[];
+  // How many of the samples produced this segmentation
+  count: number;
+}
+
+// Encodes the text `samples` times with BPE-dropout from one seeded
+// generator, grouping identical segmentations, most frequent first
+export const sampleSegmentations = (
+  text: string,
+  tokenizer: Tokenizer,
+  dropout: number,
+  seed: number,
+  samples: number
+): SampledSegmentation[] => {
+  const random = createRandom(seed);
+  const groups = new Map<string, SampledSegmentation>();
+  for (let i = 0; i < samples; i++) {
+    const tokens = segment(text, tokenizer, { dropout, random });
+    const key = tokens.join("\u0000");
+    const group = groups.get(key);
+    if (group) group.count++;
+    else groups.set(key, { tokens, count: 1 });
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count);
+};
+
+// Text of a run of ordinary tokens, following the model's subword markers
+const decodeTokens = (tokens: string[], config: BPEConfig): string => {
+  const { family } = config;
+  if (config.byteLevel) {
+    return byteSymbolsToText(tokens.join(""));
+  }
+  if (family === "bert") {
+    return tokens
+      .map((token, i) =>
+        token.startsWith(CONTINUATION_PREFIX)
+          ? token.substring(CONTINUATION_PREFIX.length)
+          : i === 0
+          ? token
+          : ` ${token}`
+      )
+      .join("");
+  }
+  const text = resolveFallback(tokens).join("");
+  if (family === "t5" || family === "llama") {
+    // ▁ turns back into spaces, minus the dummy prefix of the first word
+    return text.split(SPACE_SYMBOL).join(" ").replace(/^ /, "");
+  }
+  return text.split(END_OF_WORD).join(" ").trim();
+};
+
+export const decode = (ids: number[], tokenizer: Tokenizer): string => {
+  const { config } = tokenizer;
+  const specialTokens = new Set(config.specialTokens);
+  // Unknown ids carry no text, so they are dropped
+  const tokens = ids
+    .map((id) => tokenizer.finalVocabulary[id])
+    .filter((token) => token !== undefined);
+
+  // Special tokens are spelled out as they are, unless <unk> is also the
+  // fallback token
+  if (usesFallback(config)) specialTokens.delete(UNKNOWN_PIECE);
+  const parts: string[] = [];
+  let run: string[] = [];
+  for (const token of tokens) {
+    if (specialTokens.has(token)) {
+      if (run.length > 0) parts.push(decodeTokens(run, config));
+      parts.push(token);
+      run = [];
+    } else {
+      run.push(token);
+    }
+  }
+  if (run.length > 0) parts.push(decodeTokens(run, config));
+  return parts.join(config.family === "bert" ? " " : "");
+};
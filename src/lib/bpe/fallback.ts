@@ -0,0 +1,69 @@
+import type { BPEConfig, UnknownHandling } from "./types";
+
+// SentencePiece's names for the unknown piece and its surface form
+export const UNKNOWN_PIECE = "<unk>";
+export const UNKNOWN_SURFACE = " ⁇ ";
+
+export const UNKNOWN_HANDLING_LABELS: Record<UnknownHandling, string> = {
+  "byte-fallback": "Byte fallback (<0xNN>)",
+  unk: "Unknown token (<unk>)",
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const byteToken = (byte: number): string =>
+  `<0x${byte.toString(16).toUpperCase().padStart(2, "0")}>`;
+
+const BYTE_TOKEN_PATTERN = /^<0x([0-9A-F]{2})>$/;
+
+export const isByteToken = (token: string): boolean =>
+  BYTE_TOKEN_PATTERN.test(token);
+
+export const isFallbackToken = (token: string): boolean =>
+  token === UNKNOWN_PIECE || isByteToken(token);
+
+// Byte-level symbols always cover every character, and WordPiece maps
+// whole words it can't match to [UNK] instead
+export const usesFallback = (config: BPEConfig): boolean =>
+  !config.byteLevel && config.algorithm !== "wordpiece";
+
+// Tokens every vocabulary gets so unknown characters can still be
+// encoded, unless a special token already provides them
+export const fallbackVocabulary = (config: BPEConfig): string[] => {
+  if (!usesFallback(config)) return [];
+  const tokens = [UNKNOWN_PIECE];
+  if (config.unknownHandling === "byte-fallback") {
+    for (let byte = 0; byte < 256; byte++) tokens.push(byteToken(byte));
+  }
+  return tokens.filter((token) => !config.specialTokens.includes(token));
+};
+
+// A character outside the vocabulary, as its UTF-8 bytes or as <unk>
+export const fallbackTokens = (symbol: string, config: BPEConfig): string[] =>
+  config.unknownHandling === "byte-fallback"
+    ? Array.from(encoder.encode(symbol), byteToken)
+    : [UNKNOWN_PIECE];
+
+// Turns runs of byte tokens back into text; invalid UTF-8 decodes to
+// U+FFFD, and <unk> to its surface form
+export const resolveFallback = (tokens: string[]): string[] => {
+  const resolved: string[] = [];
+  let bytes: number[] = [];
+  const flush = () => {
+    if (bytes.length === 0) return;
+    resolved.push(decoder.decode(Uint8Array.from(bytes)));
+    bytes = [];
+  };
+  for (const token of tokens) {
+    const match = BYTE_TOKEN_PATTERN.exec(token);
+    if (match) {
+      bytes.push(parseInt(match[1], 16));
+      continue;
+    }
+    flush();
+    resolved.push(token === UNKNOWN_PIECE ? UNKNOWN_SURFACE : token);
+  }
+  flush();
+  return resolved;
+};
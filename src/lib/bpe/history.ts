@@ -0,0 +1,113 @@
+import type { BPEResult, BPEStep } from "./types";
+import { unigramVocabulary } from "./unigram";
+
+// Replaying from the nearest checkpoint bounds the cost of a random seek
+const CHECKPOINT_INTERVAL = 64;
+
+interface ReplayState {
+  iteration: number;
+  symbols: (string | null)[];
+  next: Int32Array;
+}
+
+const cloneState = (state: ReplayState): ReplayState => ({
+  iteration: state.iteration,
+  symbols: [...state.symbols],
+  next: state.next.slice(),
+});
+
+// Rebuilds full BPE steps from the per-merge deltas of a training run.
+// Unigram rounds are stored whole and need no replay.
+// Symbols form a linked list per segment, indexed like the positions in
+// the deltas, so applying a merge only touches its merge sites.
+export const createStepReplayer = (result: BPEResult) => {
+  const { segments, order } = result.initial;
+  const heads: number[] = [];
+  const symbols: (string | null)[] = [];
+  const links: number[] = [];
+  segments.forEach((segment) => {
+    heads.push(segment.length > 0 ? symbols.length : -1);
+    segment.forEach((symbol, i) => {
+      links.push(i === segment.length - 1 ? -1 : symbols.length + 1);
+      symbols.push(symbol);
+    });
+  });
+
+  const checkpoints: ReplayState[] = [
+    { iteration: 0, symbols, next: Int32Array.from(links) },
+  ];
+  let cursor = cloneState(checkpoints[0]);
+
+  const advance = (state: ReplayState) => {
+    const step = result.steps[state.iteration + 1];
+    for (const left of step.positions) {
+      const right = state.next[left];
+      state.symbols[left] = step.rule.newToken;
+      state.symbols[right] = null;
+      state.next[left] = state.next[right];
+    }
+    state.iteration++;
+    if (
+      state.iteration % CHECKPOINT_INTERVAL === 0 &&
+      checkpoints.length === state.iteration / CHECKPOINT_INTERVAL
+    ) {
+      checkpoints.push(cloneState(state));
+    }
+  };
+
+  const seek = (iteration: number) => {
+    if (iteration < cursor.iteration) {
+      const nearest = Math.min(
+        Math.floor(iteration / CHECKPOINT_INTERVAL),
+        checkpoints.length - 1
+      );
+      cursor = cloneState(checkpoints[nearest]);
+    }
+    while (cursor.iteration < iteration) advance(cursor);
+  };
+
+  const tokensAt = (iteration: number): string[] => {
+    seek(iteration);
+    return order.flatMap((s) => {
+      const tokens: string[] = [];
+      for (let node = heads[s]; node >= 0; node = cursor.next[node]) {
+        tokens.push(cursor.symbols[node]);
+      }
+      return tokens;
+    });
+  };
+
+  return (index: number): BPEStep => {
+    const iteration = Math.max(0, Math.min(index, result.steps.length - 1));
+    const step = result.steps[iteration];
+    const { round } = step;
+    if (round) {
+      // Unigram rounds carry their own vocabulary and segmentation
+      return {
+        iteration,
+        mostFrequentPair: null,
+        newToken: null,
+        frequency: step.frequency,
+        vocabulary: unigramVocabulary(round.pieces, result.config),
+        mergedTokens: order.flatMap((s) => round.segmentation[s]),
+        compressionRatio: step.compressionRatio,
+        mergingRules: [],
+        round,
+      };
+    }
+    const mergingRules = result.mergingRules.slice(0, iteration);
+    return {
+      iteration,
+      mostFrequentPair: step.rule?.pair ?? null,
+      newToken: step.rule?.newToken ?? null,
+      frequency: step.frequency,
+      score: step.score,
+      vocabulary: result.initial.vocabulary.concat(
+        mergingRules.map((rule) => rule.newToken)
+      ),
+      mergedTokens: tokensAt(iteration),
+      compressionRatio: step.compressionRatio,
+      mergingRules,
+    };
+  };
+};
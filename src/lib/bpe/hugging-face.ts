@@ -0,0 +1,261 @@
+import { UNKNOWN_PIECE, usesFallback } from "./fallback";
+import { PRE_TOKENIZER_PATTERNS } from "./pre-tokenizers";
+import { CONTINUATION_PREFIX, END_OF_WORD, SPACE_SYMBOL } from "./preprocess";
+import type { BPEConfig, Tokenizer } from "./types";
+import { exportMerges, exportVocabulary, toVocabJson } from "./vocab-merges";
+import { DEFAULT_MAX_INPUT_CHARS_PER_WORD, UNKNOWN_TOKEN } from "./wordpiece";
+
+// A component of the tokenizers pipeline, e.g. { type: "NFC" }
+type Component = { type: string } & Record<string, unknown>;
+
+interface AddedToken {
+  id: number;
+  content: string;
+  single_word: boolean;
+  lstrip: boolean;
+  rstrip: boolean;
+  normalized: boolean;
+  special: boolean;
+}
+
+// The subset of tokenizer.json the playground produces
+export interface HuggingFaceTokenizer {
+  version: "1.0";
+  truncation: null;
+  padding: null;
+  added_tokens: AddedToken[];
+  normalizer: Component | null;
+  pre_tokenizer: Component | null;
+  post_processor: null;
+  decoder: Component | null;
+  model: Component;
+}
+
+const regex = (pattern: string) => ({ Regex: pattern });
+
+const sequence = (key: string, components: Component[]): Component | null => {
+  if (components.length === 0) return null;
+  if (components.length === 1) return components[0];
+  return { type: "Sequence", [key]: components };
+};
+
+const metaspace = (split: boolean): Component => ({
+  type: "Metaspace",
+  replacement: SPACE_SYMBOL,
+  prepend_scheme: "always",
+  split,
+});
+
+const collapseWhitespace = (content: string): Component[] => [
+  { type: "Replace", pattern: regex("\\s+"), content },
+  { type: "Strip", strip_left: true, strip_right: true },
+];
+
+// The configured normalizer followed by the model's own preprocessing,
+// see normalize and preprocess
+const buildNormalizer = (config: BPEConfig): Component | null => {
+  const normalizers: Component[] = [];
+  const { normalizer } = config;
+  if (normalizer) {
+    if (normalizer.unicodeForm !== "none") {
+      normalizers.push({ type: normalizer.unicodeForm });
+    }
+    if (normalizer.lowercase) normalizers.push({ type: "Lowercase" });
+    if (normalizer.stripAccents) {
+      normalizers.push({ type: "NFD" }, { type: "StripAccents" });
+      normalizers.push({
+        type:
+          normalizer.unicodeForm === "none" ? "NFC" : normalizer.unicodeForm,
+      });
+    }
+    if (normalizer.removeControl) {
+      normalizers.push({
+        type: "Replace",
+        pattern: regex("[\\x00-\\x08\\x0B\\x0C\\x0E-\\x1F\\x7F-\\x9F]"),
+        content: "",
+      });
+    }
+    if (normalizer.collapseWhitespace) {
+      normalizers.push(...collapseWhitespace(" "));
+    }
+  }
+
+  if (!config.byteLevel) {
+    if (config.family === "bert") {
+      normalizers.push(
+        { type: "Lowercase" },
+        { type: "Replace", pattern: regex("[^A-Za-z0-9_\\s]"), content: " " },
+        ...collapseWhitespace(" ")
+      );
+    } else if (config.family === "t5" || config.family === "llama") {
+      // Spaces become ▁ in the Metaspace pre-tokenizer
+      normalizers.push(...collapseWhitespace(" "));
+    }
+  }
+  return sequence("normalizers", normalizers);
+};
+
+// Only the matches are kept, as in splitChunks
+const split = (pattern: string): Component => ({
+  type: "Split",
+  pattern: regex(pattern),
+  behavior: "Removed",
+  invert: true,
+});
+
+const buildPreTokenizer = (config: BPEConfig): Component | null => {
+  const { preTokenizer, family } = config;
+  const sentencePiece =
+    !config.byteLevel && (family === "t5" || family === "llama");
+  const pretokenizers: Component[] = [];
+
+  if (sentencePiece && preTokenizer.kind === "metaspace") {
+    pretokenizers.push(metaspace(true));
+  } else {
+    if (sentencePiece) pretokenizers.push(metaspace(false));
+    if (preTokenizer.kind === "whitespace") {
+      pretokenizers.push({ type: "WhitespaceSplit" });
+    } else {
+      pretokenizers.push(
+        split(
+          preTokenizer.kind === "custom"
+            ? preTokenizer.pattern ?? ""
+            : PRE_TOKENIZER_PATTERNS[preTokenizer.kind]
+        )
+      );
+    }
+  }
+  if (config.byteLevel) {
+    // The split above already did what use_regex would
+    pretokenizers.push({
+      type: "ByteLevel",
+      add_prefix_space: false,
+      trim_offsets: true,
+      use_regex: false,
+    });
+  }
+  return sequence("pretokenizers", pretokenizers);
+};
+
+const buildDecoder = (config: BPEConfig): Component | null => {
+  if (config.byteLevel) {
+    return {
+      type: "ByteLevel",
+      add_prefix_space: false,
+      trim_offsets: true,
+      use_regex: false,
+    };
+  }
+  if (config.family === "bert") {
+    return { type: "WordPiece", prefix: CONTINUATION_PREFIX, cleanup: true };
+  }
+  const byteFallback =
+    usesFallback(config) && config.unknownHandling === "byte-fallback";
+  if (config.family === "t5" || config.family === "llama") {
+    if (!byteFallback) return metaspace(true);
+    // LLaMA's decoder: byte tokens are fused back into text before the
+    // dummy prefix is stripped
+    return sequence("decoders", [
+      {
+        type: "Replace",
+        pattern: { String: SPACE_SYMBOL },
+        content: " ",
+      },
+      { type: "ByteFallback" },
+      { type: "Fuse" },
+      { type: "Strip", content: " ", start: 1, stop: 0 },
+    ]);
+  }
+  return sequence("decoders", [
+    ...(byteFallback ? [{ type: "ByteFallback" }] : []),
+    { type: "BPEDecoder", suffix: END_OF_WORD },
+  ]);
+};
+
+// tokenizers stores merges as "a b" unless a token contains a space
+const formatMerges = (merges: [string, string][]) =>
+  merges.some((pair) => pair.some((token) => token.includes(" ")))
+    ? merges
+    : merges.map((pair) => pair.join(" "));
+
+const buildModel = (tokenizer: Tokenizer, vocabulary: string[]): Component => {
+  const { config } = tokenizer;
+  const vocab = toVocabJson(tokenizer);
+  const fallback = usesFallback(config);
+  const byteFallback = fallback && config.unknownHandling === "byte-fallback";
+
+  if (config.algorithm === "wordpiece") {
+    return {
+      type: "WordPiece",
+      unk_token: UNKNOWN_TOKEN,
+      continuing_subword_prefix: CONTINUATION_PREFIX,
+      max_input_chars_per_word:
+        config.maxInputCharsPerWord ?? DEFAULT_MAX_INPUT_CHARS_PER_WORD,
+      vocab,
+    };
+  }
+  if (config.algorithm === "unigram") {
+    // Fallback and special tokens carry no probability
+    const scores = new Map(tokenizer.pieces);
+    return {
+      type: "Unigram",
+      unk_id: fallback ? vocab[UNKNOWN_PIECE] : null,
+      vocab: vocabulary.map((token) => [token, scores.get(token) ?? 0]),
+      byte_fallback: byteFallback,
+    };
+  }
+
+  // See exportMerges for the Custom model's </w>
+  const suffix = config.family === "custom" && !config.byteLevel;
+  const sentencePiece = config.family === "t5" || config.family === "llama";
+  return {
+    type: "BPE",
+    dropout: null,
+    unk_token: fallback ? UNKNOWN_PIECE : null,
+    continuing_subword_prefix: null,
+    end_of_word_suffix: suffix ? END_OF_WORD : null,
+    fuse_unk: sentencePiece,
+    byte_fallback: byteFallback,
+    ignore_merges: false,
+    vocab,
+    merges: formatMerges(exportMerges(tokenizer)),
+  };
+};
+
+// The trained tokenizer as a tokenizers tokenizer.json. Pre-tokenization
+// matches the playground's, so stream-mode merges that cross words never
+// apply.
+export const toHuggingFaceTokenizer = (
+  tokenizer: Tokenizer
+): HuggingFaceTokenizer => {
+  const { config } = tokenizer;
+  const vocabulary = exportVocabulary(tokenizer);
+
+  const specialTokens = new Set(config.specialTokens);
+  const addedTokens: AddedToken[] = [];
+  vocabulary.forEach((token, id) => {
+    if (!specialTokens.has(token)) return;
+    specialTokens.delete(token);
+    addedTokens.push({
+      id,
+      content: token,
+      single_word: false,
+      lstrip: false,
+      rstrip: false,
+      normalized: false,
+      special: true,
+    });
+  });
+
+  return {
+    version: "1.0",
+    truncation: null,
+    padding: null,
+    added_tokens: addedTokens,
+    normalizer: buildNormalizer(config),
+    pre_tokenizer: buildPreTokenizer(config),
+    post_processor: null,
+    decoder: buildDecoder(config),
+    model: buildModel(tokenizer, vocabulary),
+  };
+};
@@ -0,0 +1,150 @@
+import {
+  createPairComparator,
+  pairKey,
+  segmentWeights,
+  type MergeSites,
+  type PairCandidate,
+  type TrainingCorpus,
+} from "./corpus";
+import { createHeap } from "./heap";
+import type { TieBreakPolicy } from "./types";
+
+interface HeapEntry extends PairCandidate {
+  key: string;
+}
+
+// Symbols live in a doubly linked list so a merge only touches the pairs
+// next to each merge site. Every segment (a unique word, or the whole text
+// in stream mode) counts its pairs once per occurrence in the text.
+// The best pair comes from a heap with lazy invalidation: entries whose
+// frequency or leftmost occurrence no longer match the live ones are
+// skipped when popped.
+export const createIncrementalCorpus = (
+  segments: string[][],
+  order: number[],
+  tieBreak: TieBreakPolicy
+): TrainingCorpus => {
+  const weights = segmentWeights(segments, order);
+  const symbols: (string | null)[] = [];
+  const prev: number[] = [];
+  const next: number[] = [];
+  const weight: number[] = [];
+
+  segments.forEach((segment, s) => {
+    segment.forEach((symbol, i) => {
+      const node = symbols.length;
+      symbols.push(symbol);
+      prev.push(i === 0 ? -1 : node - 1);
+      next.push(i === segment.length - 1 ? -1 : node + 1);
+      weight.push(weights[s]);
+    });
+  });
+
+  const counts = new Map<string, number>();
+  const pairs = new Map<string, [string, string]>();
+  // Left node of every occurrence of each pair
+  const occurrences = new Map<string, Set<number>>();
+  // Leftmost occurrence, only tracked when the tie-break policy needs it
+  const firsts = new Map<string, number>();
+  const heap = createHeap<HeapEntry>(createPairComparator(tieBreak));
+  let changed = new Set<string>();
+
+  const add = (left: number, delta: number) => {
+    const right = next[left];
+    const key = pairKey(symbols[left], symbols[right]);
+    const count = (counts.get(key) || 0) + delta * weight[left];
+    if (count > 0) {
+      counts.set(key, count);
+    } else {
+      counts.delete(key);
+    }
+
+    let nodes = occurrences.get(key);
+    if (!nodes) {
+      nodes = new Set();
+      occurrences.set(key, nodes);
+    }
+    if (delta > 0) {
+      pairs.set(key, [symbols[left], symbols[right]]);
+      nodes.add(left);
+    } else {
+      nodes.delete(left);
+      if (nodes.size === 0) occurrences.delete(key);
+    }
+    changed.add(key);
+  };
+
+  const pushChanged = () => {
+    for (const key of changed) {
+      const frequency = counts.get(key);
+      if (frequency) {
+        let first = 0;
+        if (tieBreak === "first") {
+          first = Infinity;
+          for (const node of occurrences.get(key)) {
+            if (node < first) first = node;
+          }
+          firsts.set(key, first);
+        }
+        heap.push({ key, pair: pairs.get(key), frequency, first });
+      }
+    }
+    changed = new Set();
+  };
+
+  for (let node = 0; node < symbols.length; node++) {
+    if (next[node] >= 0) add(node, 1);
+  }
+  pushChanged();
+
+  return {
+    bestPair: () => {
+      for (;;) {
+        const top = heap.peek();
+        if (!top) return null;
+        if (
+          counts.get(top.key) === top.frequency &&
+          (tieBreak !== "first" || firsts.get(top.key) === top.first)
+        ) {
+          return { pair: top.pair, frequency: top.frequency, first: top.first };
+        }
+        heap.pop();
+      }
+    },
+    merge: ([first, second], newToken) => {
+      const key = pairKey(first, second);
+      // Ascending node order keeps the left-to-right merge semantics of
+      // the naive trainers, e.g. "a a a" becomes "aa a"
+      const candidates = [...(occurrences.get(key) ?? [])].sort(
+        (a, b) => a - b
+      );
+      const sites: MergeSites = { positions: [], count: 0 };
+
+      for (const left of candidates) {
+        const right = next[left];
+        if (symbols[left] !== first || right < 0 || symbols[right] !== second) {
+          continue;
+        }
+        const before = prev[left];
+        const after = next[right];
+
+        if (before >= 0) add(before, -1);
+        if (after >= 0) add(right, -1);
+        add(left, -1);
+
+        symbols[left] = newToken;
+        symbols[right] = null;
+        next[left] = after;
+        if (after >= 0) prev[after] = left;
+
+        if (before >= 0) add(before, 1);
+        if (after >= 0) add(left, 1);
+
+        sites.positions.push(left);
+        sites.count += weight[left];
+      }
+      pushChanged();
+      return sites;
+    },
+  };
+};
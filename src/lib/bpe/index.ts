@@ -0,0 +1,114 @@
+export {
+  STOP_REASON_LABELS,
+  initialState,
+  initialStep,
+  summarize,
+  train,
+  type TrainOptions,
+} from "./train";
+export { MIN_PAIR_FREQUENCY, TIE_BREAK_LABELS } from "./corpus";
+export { createStepReplayer } from "./history";
+export {
+  PRE_TOKENIZER_LABELS,
+  PRE_TOKENIZER_PATTERNS,
+  compilePreTokenizer,
+} from "./pre-tokenizers";
+export {
+  UNKNOWN_HANDLING_LABELS,
+  UNKNOWN_PIECE,
+  byteToken,
+  isFallbackToken,
+} from "./fallback";
+export {
+  toHuggingFaceTokenizer,
+  type HuggingFaceTokenizer,
+} from "./hugging-face";
+export {
+  MERGES_HEADER,
+  canExportMergesTxt,
+  hasEndOfWordSymbol,
+  parseMergesTxt,
+  parseVocabJson,
+  toMergesTxt,
+  toVocabJson,
+} from "./vocab-merges";
+export {
+  fromVocabAndMerges,
+  parseSpecialTokens,
+  pretrainedConfig,
+  withSpecialTokens,
+} from "./pretrained";
+export { TIKTOKEN_ENCODINGS, fromTiktoken, parseTiktoken } from "./tiktoken";
+export {
+  fromSentencePiece,
+  parseSentencePieceModel,
+  type SentencePiece,
+  type SentencePieceModel,
+  type SentencePieceModelType,
+  type SentencePieceType,
+} from "./sentencepiece";
+export {
+  DEFAULT_NORMALIZER,
+  normalize,
+  normalizerStages,
+  type NormalizerStage,
+} from "./normalizer";
+export {
+  CHARACTER_UNIT_LABELS,
+  DEFAULT_SPACE_HANDLING,
+  pretokenize,
+  splitCharacters,
+} from "./preprocess";
+export {
+  DEFAULT_MAX_INPUT_CHARS_PER_WORD,
+  UNKNOWN_TOKEN,
+  encodeWordPiece,
+} from "./wordpiece";
+export { trainUnigram, viterbi } from "./unigram";
+export {
+  decode,
+  encode,
+  sampleSegmentations,
+  traceMerges,
+  type EncodeOptions,
+  type MergeTrace,
+  type MergeTraceStep,
+  type SampledSegmentation,
+} from "./encode";
+export { createRandom } from "./random";
+export {
+  MAX_DIFF_CHARS,
+  diffText,
+  roundTrip,
+  type DiffSegment,
+  type RoundTrip,
+} from "./round-trip";
+export type {
+  BPEConfig,
+  BPEInitialState,
+  BPEResult,
+  BPEStep,
+  BPEStepDelta,
+  CharacterUnit,
+  Encoding,
+  MergeRule,
+  NormalizerConfig,
+  PreTokenizerConfig,
+  PreTokenizerKind,
+  SpaceHandling,
+  StopReason,
+  StoppingCriteria,
+  TieBreakPolicy,
+  Tokenizer,
+  TokenizerAlgorithm,
+  TokenizerFamily,
+  TrainerKind,
+  TrainingMode,
+  TrainWorkerRequest,
+  TrainWorkerResponse,
+  UnicodeForm,
+  UnknownHandling,
+  UnigramPhase,
+  UnigramPiece,
+  UnigramRound,
+} from "./types";
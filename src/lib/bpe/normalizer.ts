@@ -0,0 +1,67 @@
+import type { NormalizerConfig } from "./types";
+
+export const DEFAULT_NORMALIZER: NormalizerConfig = {
+  unicodeForm: "none",
+  lowercase: false,
+  stripAccents: false,
+  removeControl: false,
+  collapseWhitespace: false,
+};
+
+export interface NormalizerStage {
+  name: string;
+  apply: (text: string) => string;
+}
+
+// Enabled stages in the order they run. Accents are stripped by
+// decomposing and dropping combining marks, then putting what is left back
+// in the configured Unicode form, NFC without one, so e.g. Hangul syllables
+// survive. Control characters are removed except tabs and line breaks,
+// which the pre-tokenizer treats as whitespace.
+export const normalizerStages = (
+  normalizer: NormalizerConfig
+): NormalizerStage[] => {
+  const stages: NormalizerStage[] = [];
+  const { unicodeForm } = normalizer;
+  if (unicodeForm !== "none") {
+    stages.push({
+      name: unicodeForm,
+      apply: (text) => text.normalize(unicodeForm),
+    });
+  }
+  if (normalizer.lowercase) {
+    stages.push({ name: "Lowercase", apply: (text) => text.toLowerCase() });
+  }
+  if (normalizer.stripAccents) {
+    stages.push({
+      name: "Strip accents",
+      apply: (text) =>
+        text
+          .normalize("NFD")
+          .replace(/\p{Mn}/gu, "")
+          .normalize(unicodeForm === "none" ? "NFC" : unicodeForm),
+    });
+  }
+  if (normalizer.removeControl) {
+    stages.push({
+      name: "Remove control characters",
+      apply: (text) => text.replace(/(?![\t\n\r])\p{Cc}/gu, ""),
+    });
+  }
+  if (normalizer.collapseWhitespace) {
+    stages.push({
+      name: "Collapse whitespace",
+      apply: (text) => text.replace(/\s+/g, " ").trim(),
+    });
+  }
+  return stages;
+};
+
+export const normalize = (
+  text: string,
+  normalizer: NormalizerConfig = DEFAULT_NORMALIZER
+): string =>
+  normalizerStages(normalizer).reduce(
+    (result, stage) => stage.apply(result),
+    text
+  );
@@ -0,0 +1,49 @@
+import type { PreTokenizerConfig, PreTokenizerKind } from "./types";
+
+// Patterns as published with the GPT-2 encoder and tiktoken's cl100k_base.
+// JavaScript has no inline (?i:) group, so cl100k's case-insensitive
+// contractions are spelled out with character classes. Metaspace splits
+// SentencePiece-normalized text before every ▁, so pieces carry the ▁ of
+// the word they start but never span two words.
+export const PRE_TOKENIZER_PATTERNS: Record<
+  Exclude<PreTokenizerKind, "custom" | "whitespace">,
+  string
+> = {
+  gpt2: "'s|'t|'re|'ve|'m|'ll|'d| ?\\p{L}+| ?\\p{N}+| ?[^\\s\\p{L}\\p{N}]+|\\s+(?!\\S)|\\s+",
+  cl100k:
+    "'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD]|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+",
+  punctuation: "[^\\s\\p{P}]+|\\p{P}",
+  metaspace: "▁[^▁\\s]*|[^▁\\s]+",
+};
+
+export const PRE_TOKENIZER_LABELS: Record<PreTokenizerKind, string> = {
+  gpt2: "GPT-2 regex",
+  cl100k: "cl100k_base regex",
+  whitespace: "Whitespace split",
+  punctuation: "Whitespace + punctuation split",
+  metaspace: "Metaspace (split before ▁)",
+  custom: "Custom regex",
+};
+
+// Throws a SyntaxError for an invalid custom pattern
+export const compilePreTokenizer = (
+  preTokenizer: PreTokenizerConfig
+): RegExp => {
+  if (preTokenizer.kind === "whitespace") return /\S+/gu;
+  const pattern =
+    preTokenizer.kind === "custom"
+      ? preTokenizer.pattern ?? ""
+      : PRE_TOKENIZER_PATTERNS[preTokenizer.kind];
+  return new RegExp(pattern, "gu");
+};
+
+// Chunks of text that merges never cross; text the pattern doesn't match
+// is dropped, as in the reference implementations
+export const splitChunks = (
+  text: string,
+  preTokenizer: PreTokenizerConfig
+): string[] =>
+  Array.from(
+    text.matchAll(compilePreTokenizer(preTokenizer)),
+    (match) => match[0]
+  ).filter((chunk) => chunk.length > 0);
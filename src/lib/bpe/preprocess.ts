@@ -0,0 +1,200 @@
+import { BYTE_TO_UNICODE, textToByteSymbols } from "./byte-level";
+import { normalize } from "./normalizer";
+import { splitChunks } from "./pre-tokenizers";
+import type {
+  BPEConfig,
+  CharacterUnit,
+  SpaceHandling,
+  TokenizerFamily,
+} from "./types";
+
+export const END_OF_WORD = "</w>";
+export const CONTINUATION_PREFIX = "##";
+export const SPACE_SYMBOL = "▁";
+
+export const DEFAULT_SPACE_HANDLING: SpaceHandling = {
+  addDummyPrefix: true,
+  removeExtraWhitespaces: true,
+  escapeWhitespaces: true,
+};
+
+// Model-specific text normalization applied before splitting into words
+export const preprocess = (
+  text: string,
+  family: TokenizerFamily,
+  spaceHandling: SpaceHandling = DEFAULT_SPACE_HANDLING
+): string => {
+  if (family === "gpt") {
+    // GPT-style preprocessing with byte-level handling
+    return text.replace(/\s+/g, " ").trim();
+  }
+  if (family === "bert") {
+    return text
+      .toLowerCase()
+      .replace(/[^\w\s]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+  if (family === "t5" || family === "llama") {
+    // SentencePiece treats the text as a raw stream: by default whitespace
+    // runs become a single ▁ and a dummy ▁ marks the start of the first
+    // word too
+    let result = text;
+    if (spaceHandling.removeExtraWhitespaces) {
+      result = result.trim().replace(/\s+/g, " ");
+    }
+    if (spaceHandling.addDummyPrefix && result) result = ` ${result}`;
+    return spaceHandling.escapeWhitespaces
+      ? result.replace(/ /g, SPACE_SYMBOL)
+      : result;
+  }
+  return text;
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Special tokens are only matched in the text when allowed, like
+// tiktoken's allowed_special; otherwise they are ordinary text
+export const isSpecialToken = (chunk: string, config: BPEConfig): boolean =>
+  config.allowSpecialTokens && config.specialTokens.includes(chunk);
+
+// Split text into the chunks merges never cross. Allowed special tokens
+// become chunks of their own and skip normalization. The configured
+// normalizer runs first; byte-level models then work on that text, and
+// everything else is preprocessed too.
+export const pretokenize = (text: string, config: BPEConfig): string[] => {
+  const split = (part: string) => {
+    const normalized = normalize(part, config.normalizer);
+    return splitChunks(
+      config.byteLevel
+        ? normalized
+        : preprocess(normalized, config.family, config.spaceHandling),
+      config.preTokenizer
+    );
+  };
+  const specials = config.specialTokens.filter((token) => token.length > 0);
+  if (!config.allowSpecialTokens || specials.length === 0) return split(text);
+
+  // Longest first, so a token is never cut short by one it starts with
+  const pattern = new RegExp(
+    [...specials]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|"),
+    "g"
+  );
+  const chunks: string[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    chunks.push(...split(text.slice(last, match.index)), match[0]);
+    last = match.index + match[0].length;
+  }
+  chunks.push(...split(text.slice(last)));
+  return chunks;
+};
+
+export const CHARACTER_UNIT_LABELS: Record<CharacterUnit, string> = {
+  "code-point": "Code points",
+  grapheme: "Grapheme clusters",
+};
+
+let graphemeSegmenter: Intl.Segmenter | null = null;
+
+// Splits text into characters. Code points keep surrogate pairs together;
+// grapheme clusters also keep combining marks, ZWJ emoji sequences and
+// flags whole. Without Intl.Segmenter graphemes fall back to code points.
+export const splitCharacters = (
+  text: string,
+  unit: CharacterUnit
+): string[] => {
+  if (unit === "grapheme" && typeof Intl.Segmenter === "function") {
+    graphemeSegmenter ??= new Intl.Segmenter(undefined, {
+      granularity: "grapheme",
+    });
+    return Array.from(graphemeSegmenter.segment(text), (s) => s.segment);
+  }
+  return Array.from(text);
+};
+
+// Symbols every word can start from, regardless of the training text
+export const baseAlphabet = (config: BPEConfig): string[] | null =>
+  config.byteLevel ? [...BYTE_TO_UNICODE] : null;
+
+// Initial symbol sequence for a single word, before any merges
+export const wordToSymbols = (word: string, config: BPEConfig): string[] => {
+  const { family } = config;
+  if (isSpecialToken(word, config)) {
+    return [word];
+  }
+  if (config.byteLevel) {
+    return textToByteSymbols(word);
+  }
+  const chars = splitCharacters(word, config.characterUnit);
+  if (family === "bert") {
+    // BERT uses ## for subwords
+    return chars.map((char, i) =>
+      i === 0 ? char : `${CONTINUATION_PREFIX}${char}`
+    );
+  }
+  if (family === "t5" || family === "llama") {
+    // ▁ already marks word starts and is an ordinary mergeable symbol
+    return chars;
+  }
+  // Standard BPE with </w>
+  return chars.concat([END_OF_WORD]);
+};
+
+// Stream mode segments: the symbols of consecutive chunks run together,
+// and each special token stands alone so no merge crosses it
+export const streamSegments = (
+  chunks: string[],
+  config: BPEConfig
+): string[][] => {
+  const segments: string[][] = [];
+  let run: string[] = [];
+  for (const chunk of chunks) {
+    if (isSpecialToken(chunk, config)) {
+      if (run.length > 0) segments.push(run);
+      segments.push([chunk]);
+      run = [];
+    } else {
+      run.push(...wordToSymbols(chunk, config));
+    }
+  }
+  if (run.length > 0 || segments.length === 0) segments.push(run);
+  return segments;
+};
+
+// Token produced when merging a pair, following the model's subword markers
+export const mergePair = (
+  pair: [string, string],
+  family: TokenizerFamily
+): string => {
+  if (family === "bert" && pair[1].startsWith(CONTINUATION_PREFIX)) {
+    return pair[0] + pair[1].substring(CONTINUATION_PREFIX.length);
+  }
+  return pair[0] + pair[1];
+};
+
+// Replace every non-overlapping occurrence of a pair, scanning left to right
+export const applyMerge = (
+  tokens: string[],
+  pair: [string, string],
+  newToken: string
+): string[] => {
+  const merged: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (
+      i < tokens.length - 1 &&
+      tokens[i] === pair[0] &&
+      tokens[i + 1] === pair[1]
+    ) {
+      merged.push(newToken);
+      i++; // Skip next token
+    } else {
+      merged.push(tokens[i]);
+    }
+  }
+  return merged;
+};
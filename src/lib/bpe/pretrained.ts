@@ -0,0 +1,134 @@
+import { BYTE_TO_UNICODE } from "./byte-level";
+import { MIN_PAIR_FREQUENCY } from "./corpus";
+import { byteToken } from "./fallback";
+import { END_OF_WORD, SPACE_SYMBOL } from "./preprocess";
+import type { BPEConfig, MergeRule, Tokenizer } from "./types";
+import { parseMergesTxt, parseVocabJson } from "./vocab-merges";
+
+// Control tokens shipped inside vocabularies, e.g. <|endoftext|> or </s>
+const SPECIAL_TOKEN_PATTERN = /^(<\|[^|]*\|>|<\/?s>|<unk>|<pad>|<mask>)$/;
+
+// Words end in a separate </w> symbol, as in the Custom model, rather
+// than the suffix tokenizers attaches to a word's last character
+const isSuffixed = (token: string | undefined) =>
+  token !== undefined &&
+  token.length > END_OF_WORD.length &&
+  token.endsWith(END_OF_WORD);
+
+// Settings for a tokenizer trained elsewhere, guessed from its vocabulary:
+// byte-level if every GPT-2 byte symbol is present, SentencePiece-style if
+// pieces carry ▁, the Custom model's if tokens end in </w>. Training-only
+// settings are left at their defaults.
+export const pretrainedConfig = (vocabulary: string[]): BPEConfig => {
+  const tokens = new Set(vocabulary);
+  const byteLevel = BYTE_TO_UNICODE.every((symbol) => tokens.has(symbol));
+  const metaspace =
+    !byteLevel && vocabulary.some((token) => token?.startsWith(SPACE_SYMBOL));
+  const suffix = !byteLevel && !metaspace && vocabulary.some(isSuffixed);
+  if (!byteLevel && !metaspace && !suffix) {
+    throw new Error(
+      "Only byte-level (GPT-2 style), ▁-prefixed (SentencePiece style) and </w>-suffixed vocabularies are supported"
+    );
+  }
+  return {
+    vocabSize: vocabulary.length,
+    algorithm: "bpe",
+    family: byteLevel ? "gpt" : metaspace ? "llama" : "custom",
+    byteLevel,
+    preTokenizer: {
+      kind: byteLevel ? "gpt2" : metaspace ? "metaspace" : "whitespace",
+    },
+    trainingMode: "words",
+    trainer: "incremental",
+    tieBreak: "first",
+    characterUnit: "code-point",
+    characterCoverage: 1,
+    unknownHandling: tokens.has(byteToken(0)) ? "byte-fallback" : "unk",
+    stopping: { minPairFrequency: MIN_PAIR_FREQUENCY },
+    specialTokens: vocabulary.filter((token) =>
+      SPECIAL_TOKEN_PATTERN.test(token)
+    ),
+    allowSpecialTokens: true,
+  };
+};
+
+// Special tokens by id, one "<token> <id>" per line
+export const parseSpecialTokens = (text: string): Record<string, number> => {
+  const specialTokens: Record<string, number> = {};
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed.length === 0) return;
+    const match = /^(\S+)\s+(\d+)$/.exec(trimmed);
+    if (!match) {
+      throw new Error(`Line ${index + 1}: expected "<token> <id>"`);
+    }
+    specialTokens[match[1]] = Number(match[2]);
+  });
+  return specialTokens;
+};
+
+// The tokenizer with exactly these special tokens, each at its id. Throws
+// if an id already belongs to another token.
+export const withSpecialTokens = (
+  tokenizer: Tokenizer,
+  specialTokens: Record<string, number>
+): Tokenizer => {
+  const finalVocabulary = [...tokenizer.finalVocabulary];
+  Object.entries(specialTokens).forEach(([token, id]) => {
+    const taken = finalVocabulary[id];
+    if (taken !== undefined && taken !== token) {
+      throw new Error(`${token}: ID ${id} is already taken by ${taken}`);
+    }
+    finalVocabulary[id] = token;
+  });
+  return {
+    ...tokenizer,
+    config: {
+      ...tokenizer.config,
+      vocabSize: finalVocabulary.length,
+      specialTokens: Object.keys(specialTokens),
+    },
+    finalVocabulary,
+  };
+};
+
+// Exported suffixed vocabularies hold "c</w>" as an initial symbol with no
+// merge producing it, see exportVocabulary. Merging c and </w> before
+// anything else starts every word from the same symbols.
+const suffixMerges = (
+  vocabulary: string[],
+  merges: MergeRule[]
+): MergeRule[] => {
+  const produced = new Set(merges.map((rule) => rule.newToken));
+  return vocabulary
+    .filter(
+      (token) =>
+        isSuffixed(token) &&
+        !produced.has(token) &&
+        Array.from(token.slice(0, -END_OF_WORD.length)).length === 1
+    )
+    .map((token) => ({
+      pair: [token.slice(0, -END_OF_WORD.length), END_OF_WORD],
+      newToken: token,
+    }));
+};
+
+// A BPE tokenizer from the contents of vocab.json and merges.txt
+export const fromVocabAndMerges = (
+  vocabText: string,
+  mergesText: string
+): Tokenizer => {
+  const finalVocabulary = parseVocabJson(vocabText);
+  const config = pretrainedConfig(finalVocabulary);
+  const merges = parseMergesTxt(mergesText).map(
+    (pair): MergeRule => ({ pair, newToken: pair[0] + pair[1] })
+  );
+  return {
+    config,
+    finalVocabulary,
+    mergingRules:
+      config.family === "custom"
+        ? [...suffixMerges(finalVocabulary, merges), ...merges]
+        : merges,
+  };
+};
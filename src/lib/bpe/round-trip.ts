@@ -0,0 +1,75 @@
+import { decode, encode } from "./encode";
+import type { Tokenizer } from "./types";
+
+// Longest stretch of text the character diff compares; the verdict itself
+// always covers the whole text
+export const MAX_DIFF_CHARS = 2000;
+
+export interface DiffSegment {
+  kind: "equal" | "removed" | "added";
+  text: string;
+}
+
+export interface RoundTrip {
+  decoded: string;
+  lossless: boolean;
+  // Original vs decoded text, limited to the first MAX_DIFF_CHARS of each
+  diff: DiffSegment[];
+}
+
+// Character diff from the longest common subsequence. Quadratic, which is
+// why callers cap the input.
+export const diffText = (original: string, decoded: string): DiffSegment[] => {
+  const a = Array.from(original);
+  const b = Array.from(decoded);
+  const width = b.length + 1;
+  // lcs[i * width + j]: common subsequence length of a[i..] and b[j..]
+  const lcs = new Uint16Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (kind: DiffSegment["kind"], char: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) last.text += char;
+    else segments.push({ kind, text: char });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push("equal", a[i++]);
+      j++;
+    } else if (
+      j >= b.length ||
+      (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+    ) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  return segments;
+};
+
+// decode(encode(text)) compared with text
+export const roundTrip = (text: string, tokenizer: Tokenizer): RoundTrip => {
+  const decoded = decode(encode(text, tokenizer).ids, tokenizer);
+  const lossless = decoded === text;
+  return {
+    decoded,
+    lossless,
+    diff: lossless
+      ? [{ kind: "equal", text: text.slice(0, MAX_DIFF_CHARS) }]
+      : diffText(
+          text.slice(0, MAX_DIFF_CHARS),
+          decoded.slice(0, MAX_DIFF_CHARS)
+        ),
+  };
+};
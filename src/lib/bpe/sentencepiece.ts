@@ -0,0 +1,251 @@
+import { DEFAULT_NORMALIZER } from "./normalizer";
+import { DEFAULT_SPACE_HANDLING } from "./preprocess";
+import { pretrainedConfig } from "./pretrained";
+import type {
+  MergeRule,
+  NormalizerConfig,
+  SpaceHandling,
+  Tokenizer,
+} from "./types";
+
+// SentencePiece.Type in sentencepiece_model.proto, by enum value
+const PIECE_TYPES = [
+  "normal",
+  "normal",
+  "unknown",
+  "control",
+  "user-defined",
+  "unused",
+  "byte",
+] as const;
+
+export type SentencePieceType = (typeof PIECE_TYPES)[number];
+
+// TrainerSpec.ModelType, by enum value
+const MODEL_TYPES = ["unigram", "unigram", "bpe", "word", "char"] as const;
+
+export type SentencePieceModelType = (typeof MODEL_TYPES)[number];
+
+export interface SentencePiece {
+  piece: string;
+  // Log probability for Unigram, merge priority for BPE
+  score: number;
+  type: SentencePieceType;
+}
+
+// The parts of a ModelProto the playground uses
+export interface SentencePieceModel {
+  pieces: SentencePiece[];
+  modelType: SentencePieceModelType;
+  byteFallback: boolean;
+  // Normalization rule, e.g. "nmt_nfkc" or "identity"
+  normalizerName: string;
+  spaceHandling: SpaceHandling;
+}
+
+interface ProtoField {
+  number: number;
+  // Varints are numbers, everything else the raw bytes
+  value: number | Uint8Array;
+}
+
+const invalid = (reason: string) =>
+  new Error(`Not a SentencePiece model: ${reason}`);
+
+// Just enough of the protobuf wire format to walk a message's fields.
+// Varints are read with arithmetic rather than bit operations so values
+// past 32 bits don't wrap.
+const readFields = (bytes: Uint8Array): ProtoField[] => {
+  const fields: ProtoField[] = [];
+  let position = 0;
+  const readVarint = () => {
+    let value = 0;
+    let scale = 1;
+    let byte;
+    do {
+      if (position >= bytes.length) throw invalid("truncated varint");
+      byte = bytes[position++];
+      value += (byte & 0x7f) * scale;
+      scale *= 128;
+    } while (byte & 0x80);
+    return value;
+  };
+  const take = (length: number) => {
+    if (position + length > bytes.length) throw invalid("truncated field");
+    position += length;
+    return bytes.subarray(position - length, position);
+  };
+
+  while (position < bytes.length) {
+    const key = readVarint();
+    const number = Math.floor(key / 8);
+    const wireType = key % 8;
+    if (wireType === 0) fields.push({ number, value: readVarint() });
+    else if (wireType === 1) fields.push({ number, value: take(8) });
+    else if (wireType === 2) fields.push({ number, value: take(readVarint()) });
+    else if (wireType === 5) fields.push({ number, value: take(4) });
+    else throw invalid(`unsupported wire type ${wireType}`);
+  }
+  return fields;
+};
+
+const textDecoder = new TextDecoder();
+
+const asBytes = (value: ProtoField["value"]): Uint8Array =>
+  typeof value === "number" ? new Uint8Array() : value;
+
+const asText = (value: ProtoField["value"]): string =>
+  textDecoder.decode(asBytes(value));
+
+const asFloat = (value: ProtoField["value"]): number => {
+  const bytes = asBytes(value);
+  if (bytes.length !== 4) return 0;
+  return new DataView(bytes.buffer, bytes.byteOffset, 4).getFloat32(0, true);
+};
+
+const asNumber = (value: ProtoField["value"]): number =>
+  typeof value === "number" ? value : 0;
+
+const parsePiece = (bytes: Uint8Array): SentencePiece => {
+  const piece: SentencePiece = { piece: "", score: 0, type: "normal" };
+  for (const { number, value } of readFields(bytes)) {
+    if (number === 1) {
+      piece.piece = asText(value);
+    } else if (number === 2) {
+      piece.score = asFloat(value);
+    } else if (number === 3) {
+      piece.type = PIECE_TYPES[asNumber(value)] ?? "normal";
+    }
+  }
+  return piece;
+};
+
+// Decodes a .model file, a serialized ModelProto. Fields the playground
+// has no use for, such as the precompiled character map, are skipped;
+// missing ones take the defaults from sentencepiece_model.proto.
+export const parseSentencePieceModel = (
+  bytes: Uint8Array
+): SentencePieceModel => {
+  const model: SentencePieceModel = {
+    pieces: [],
+    modelType: "unigram",
+    byteFallback: false,
+    normalizerName: "nmt_nfkc",
+    spaceHandling: { ...DEFAULT_SPACE_HANDLING },
+  };
+  for (const { number, value } of readFields(bytes)) {
+    if (number === 1) {
+      model.pieces.push(parsePiece(asBytes(value)));
+    } else if (number === 2) {
+      // TrainerSpec
+      for (const field of readFields(asBytes(value))) {
+        if (field.number === 3) {
+          const modelType = MODEL_TYPES[asNumber(field.value)];
+          if (!modelType) throw invalid("unknown model type");
+          model.modelType = modelType;
+        } else if (field.number === 35) {
+          model.byteFallback = asNumber(field.value) !== 0;
+        }
+      }
+    } else if (number === 3) {
+      // NormalizerSpec
+      const { spaceHandling } = model;
+      for (const field of readFields(asBytes(value))) {
+        const flag = asNumber(field.value) !== 0;
+        if (field.number === 1) {
+          model.normalizerName = asText(field.value);
+        } else if (field.number === 3) {
+          spaceHandling.addDummyPrefix = flag;
+        } else if (field.number === 4) {
+          spaceHandling.removeExtraWhitespaces = flag;
+        } else if (field.number === 5) {
+          spaceHandling.escapeWhitespaces = flag;
+        }
+      }
+    }
+  }
+  if (model.pieces.length === 0) throw invalid("no pieces");
+  return model;
+};
+
+// The named rule's precompiled character map is replayed as the Unicode
+// form it was built from. nmt_ rules also drop control characters and
+// turn other whitespace into spaces, which preprocess collapses along with
+// the spaces; other rules keep e.g. line breaks in SentencePiece. _cf rules
+// case-fold, taken here as lowercasing.
+const normalizerFor = (name: string): NormalizerConfig | undefined => {
+  if (!name.includes("nfkc")) return undefined;
+  return {
+    ...DEFAULT_NORMALIZER,
+    unicodeForm: "NFKC",
+    lowercase: name.endsWith("_cf"),
+    removeControl: name.startsWith("nmt_"),
+  };
+};
+
+// SentencePiece BPE repeatedly merges the adjacent pair forming the highest
+// scoring piece. As a merge list, that is every split of each piece into
+// two pieces, best score first.
+const scoreMerges = (pieces: SentencePiece[]): MergeRule[] => {
+  const known = new Set(pieces.map(({ piece }) => piece));
+  const merges: MergeRule[] = [];
+  [...pieces]
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ piece }) => {
+      const chars = Array.from(piece);
+      for (let i = 1; i < chars.length; i++) {
+        const left = chars.slice(0, i).join("");
+        const right = chars.slice(i).join("");
+        if (known.has(left) && known.has(right)) {
+          merges.push({ pair: [left, right], newToken: piece });
+        }
+      }
+    });
+  return merges;
+};
+
+// Pieces SentencePiece never produces by merging or Viterbi. They become
+// special tokens, as in the Hugging Face conversion.
+const SPECIAL_PIECE_TYPES: SentencePieceType[] = [
+  "unknown",
+  "control",
+  "user-defined",
+];
+
+// SentencePiece doesn't pre-tokenize: pieces may span any of the text
+// between special tokens
+const WHOLE_TEXT_PATTERN = "[\\s\\S]+";
+
+// A BPE or Unigram tokenizer from the contents of a SentencePiece .model
+// file. Ids are piece indices; byte pieces are the byte fallback tokens.
+export const fromSentencePiece = (bytes: Uint8Array): Tokenizer => {
+  const model = parseSentencePieceModel(bytes);
+  const { modelType } = model;
+  if (modelType !== "bpe" && modelType !== "unigram") {
+    throw new Error(
+      `Only BPE and Unigram SentencePiece models are supported, not ${modelType}`
+    );
+  }
+  const finalVocabulary = model.pieces.map(({ piece }) => piece);
+  const normal = model.pieces.filter(({ type }) => type === "normal");
+  const unigram = modelType === "unigram";
+  return {
+    config: {
+      ...pretrainedConfig(finalVocabulary),
+      algorithm: modelType,
+      family: unigram ? "t5" : "llama",
+      normalizer: normalizerFor(model.normalizerName),
+      preTokenizer: { kind: "custom", pattern: WHOLE_TEXT_PATTERN },
+      unknownHandling: model.byteFallback ? "byte-fallback" : "unk",
+      specialTokens: model.pieces
+        .filter(({ type }) => SPECIAL_PIECE_TYPES.includes(type))
+        .map(({ piece }) => piece),
+      spaceHandling: model.spaceHandling,
+    },
+    finalVocabulary,
+    mergingRules: unigram ? [] : scoreMerges(normal),
+    pieces: unigram
+      ? normal.map(({ piece, score }) => [piece, score])
+      : undefined,
+  };
+};
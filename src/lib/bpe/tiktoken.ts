@@ -0,0 +1,123 @@
+import { BYTE_TO_UNICODE } from "./byte-level";
+import { pretrainedConfig, withSpecialTokens } from "./pretrained";
+import type { MergeRule, PreTokenizerKind, Tokenizer } from "./types";
+
+interface TiktokenEncoding {
+  preTokenizer: PreTokenizerKind;
+  specialTokens: Record<string, number>;
+}
+
+// tiktoken's openai_public encodings this playground has a pattern for,
+// recognised by file name
+export const TIKTOKEN_ENCODINGS: Record<string, TiktokenEncoding> = {
+  r50k_base: {
+    preTokenizer: "gpt2",
+    specialTokens: { "<|endoftext|>": 50256 },
+  },
+  p50k_base: {
+    preTokenizer: "gpt2",
+    specialTokens: { "<|endoftext|>": 50256 },
+  },
+  cl100k_base: {
+    preTokenizer: "cl100k",
+    specialTokens: {
+      "<|endoftext|>": 100257,
+      "<|fim_prefix|>": 100258,
+      "<|fim_middle|>": 100259,
+      "<|fim_suffix|>": 100260,
+      "<|endofprompt|>": 100276,
+    },
+  },
+};
+
+// Raw bytes as GPT-2's printable byte symbols, so tiktoken tokens live in
+// the same alphabet as byte-level vocabularies
+const base64ToSymbols = (base64: string): string => {
+  const binary = atob(base64);
+  let symbols = "";
+  for (let i = 0; i < binary.length; i++) {
+    symbols += BYTE_TO_UNICODE[binary.charCodeAt(i)];
+  }
+  return symbols;
+};
+
+// Token strings by rank from a .tiktoken file: one "<base64> <rank>" per
+// line. The rank doubles as the token id.
+export const parseTiktoken = (text: string): string[] => {
+  const vocabulary: string[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.length === 0) return;
+    const [token, rank] = line.split(" ");
+    const id = Number(rank);
+    if (!token || !Number.isInteger(id) || id < 0) {
+      throw new Error(
+        `.tiktoken line ${index + 1}: expected "<base64> <rank>"`
+      );
+    }
+    try {
+      vocabulary[id] = base64ToSymbols(token);
+    } catch {
+      throw new Error(`.tiktoken line ${index + 1}: invalid base64`);
+    }
+  });
+  return vocabulary;
+};
+
+// tiktoken only stores token ranks; it merges whichever adjacent pair forms
+// the lowest-ranked token. The merge list is recovered the way
+// transformers converts tiktoken files: running that merge on each token
+// with only lower ranks allowed leaves the two parts it is made of. Tokens
+// that don't come out as two parts can't be produced by merging.
+const extractMerges = (vocabulary: string[]): MergeRule[] => {
+  const ranks = new Map<string, number>();
+  vocabulary.forEach((token, rank) => {
+    if (!ranks.has(token)) ranks.set(token, rank);
+  });
+
+  const merges: MergeRule[] = [];
+  vocabulary.forEach((token, rank) => {
+    if (token.length < 2) return;
+    let parts = Array.from(token);
+    while (parts.length > 2) {
+      let best = -1;
+      let bestRank = rank;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const partRank = ranks.get(parts[i] + parts[i + 1]);
+        if (partRank !== undefined && partRank < bestRank) {
+          best = i;
+          bestRank = partRank;
+        }
+      }
+      if (best < 0) break;
+      parts = [
+        ...parts.slice(0, best),
+        parts[best] + parts[best + 1],
+        ...parts.slice(best + 2),
+      ];
+    }
+    if (parts.length === 2) {
+      merges.push({ pair: [parts[0], parts[1]], newToken: token });
+    }
+  });
+  return merges;
+};
+
+// A byte-level BPE tokenizer from a .tiktoken file, with the pattern and
+// special tokens of the encoding the file name matches, cl100k_base's
+// otherwise. Token ids are tiktoken's ranks.
+export const fromTiktoken = (text: string, fileName: string): Tokenizer => {
+  const vocabulary = parseTiktoken(text);
+  const encoding =
+    Object.entries(TIKTOKEN_ENCODINGS).find(([name]) =>
+      fileName.includes(name)
+    )?.[1] ?? TIKTOKEN_ENCODINGS.cl100k_base;
+  const tokenizer: Tokenizer = {
+    config: {
+      ...pretrainedConfig(vocabulary),
+      preTokenizer: { kind: encoding.preTokenizer },
+    },
+    finalVocabulary: vocabulary,
+    mergingRules: extractMerges(vocabulary),
+  };
+  return withSpecialTokens(tokenizer, encoding.specialTokens);
+};
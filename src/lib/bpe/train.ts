@@ -0,0 +1,357 @@
+import {
+  createNaiveCorpus,
+  segmentWeights,
+  type TrainingCorpus,
+} from "./corpus";
+import { fallbackVocabulary } from "./fallback";
+import { createIncrementalCorpus } from "./incremental-corpus";
+import {
+  CONTINUATION_PREFIX,
+  END_OF_WORD,
+  SPACE_SYMBOL,
+  baseAlphabet,
+  mergePair,
+  pretokenize,
+  splitCharacters,
+  streamSegments,
+  wordToSymbols,
+} from "./preprocess";
+import { trainUnigram, unigramVocabulary } from "./unigram";
+import type {
+  BPEConfig,
+  BPEInitialState,
+  BPEResult,
+  BPEStepDelta,
+  MergeRule,
+  StopReason,
+} from "./types";
+
+export interface TrainOptions {
+  // Called once with the untrained segmentation, before any step
+  onStart?: (initial: BPEInitialState) => void;
+  // Called after every step, including the initial one. totalSteps is the
+  // upper bound on merges (rounds for Unigram), training may stop before
+  // reaching it.
+  onStep?: (step: BPEStepDelta, totalSteps: number) => void;
+}
+
+// Build a result from the steps recorded so far, so partially trained runs
+// can be displayed while a trainer is still going
+export const summarize = (
+  config: BPEConfig,
+  initial: BPEInitialState,
+  steps: BPEStepDelta[],
+  stopReason?: StopReason
+): BPEResult => {
+  const lastStep = steps[steps.length - 1];
+  const { round } = lastStep;
+  // Unigram steps are rounds over a whole vocabulary, not merges
+  const mergingRules = round ? [] : steps.slice(1).map((step) => step.rule);
+  const finalVocabulary = round
+    ? unigramVocabulary(round.pieces, config)
+    : initial.vocabulary.concat(mergingRules.map((rule) => rule.newToken));
+
+  return {
+    config,
+    initial,
+    steps,
+    finalVocabulary,
+    mergingRules,
+    pieces: round?.pieces,
+    stopReason,
+    statistics: {
+      totalMerges: steps.length - 1,
+      finalCompressionRatio: lastStep.compressionRatio,
+      uniqueChars:
+        initial.vocabulary.length -
+        config.specialTokens.length -
+        fallbackVocabulary(config).length,
+      averageTokenLength: lastStep.characterCount / lastStep.tokenCount,
+      vocabularyEfficiency: finalVocabulary.length / config.vocabSize,
+    },
+  };
+};
+
+// Symbols left out of the alphabet by the coverage threshold: the rarest
+// characters, once the more frequent ones cover that share of the text.
+// Markers and special tokens always stay.
+const findRareCharacters = (
+  segments: string[][],
+  order: number[],
+  config: BPEConfig
+): Set<string> => {
+  const rare = new Set<string>();
+  if (config.byteLevel || config.characterCoverage >= 1) return rare;
+  const weights = segmentWeights(segments, order);
+  const counts = new Map<string, number>();
+  let total = 0;
+  segments.forEach((symbols, s) => {
+    for (const symbol of symbols) {
+      if (
+        symbol === END_OF_WORD ||
+        symbol === SPACE_SYMBOL ||
+        config.specialTokens.includes(symbol)
+      ) {
+        continue;
+      }
+      counts.set(symbol, (counts.get(symbol) || 0) + weights[s]);
+      total += weights[s];
+    }
+  });
+
+  let covered = 0;
+  [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+    .forEach(([symbol, count]) => {
+      if (covered >= total * config.characterCoverage) rare.add(symbol);
+      covered += count;
+    });
+  return rare;
+};
+
+// Splits segments around rare characters, each of which becomes a
+// segment of its own
+const isolateRareCharacters = (
+  segments: string[][],
+  order: number[],
+  rare: Set<string>
+) => {
+  const isolated: string[][] = [];
+  const parts = segments.map((symbols) => {
+    const indices: number[] = [];
+    let run: string[] = [];
+    const flush = () => {
+      if (run.length === 0) return;
+      indices.push(isolated.length);
+      isolated.push(run);
+      run = [];
+    };
+    for (const symbol of symbols) {
+      if (rare.has(symbol)) {
+        flush();
+        run.push(symbol);
+        flush();
+      } else {
+        run.push(symbol);
+      }
+    }
+    flush();
+    return indices;
+  });
+  return { segments: isolated, order: order.flatMap((s) => parts[s]) };
+};
+
+// The corpus split into base symbols, before any merges
+export const initialState = (
+  corpus: string,
+  config: BPEConfig
+): BPEInitialState => {
+  const words = pretokenize(corpus, config);
+  let segments: string[][];
+  let order: number[];
+
+  // Unigram segments words independently, so it always groups them
+  if (config.trainingMode === "words" || config.algorithm === "unigram") {
+    const index = new Map<string, number>();
+    segments = [];
+    order = words.map((word) => {
+      let s = index.get(word);
+      if (s === undefined) {
+        s = segments.length;
+        index.set(word, s);
+        segments.push(wordToSymbols(word, config));
+      }
+      return s;
+    });
+  } else {
+    segments = streamSegments(words, config);
+    order = segments.map((_, s) => s);
+  }
+
+  const rare = findRareCharacters(segments, order, config);
+  if (rare.size > 0) {
+    ({ segments, order } = isolateRareCharacters(segments, order, rare));
+  }
+
+  // Initialize vocabulary with characters, fallback tokens for characters
+  // outside it and special tokens. </w> gets an
+  // id of its own so decoding can restore word boundaries; WordPiece keeps
+  // "##x" continuation symbols too, its encoder needs them.
+  const uniqueChars = baseAlphabet(config) ?? [
+    ...new Set(
+      segments
+        .flat()
+        .filter(
+          (t) =>
+            !config.specialTokens.includes(t) &&
+            !rare.has(t) &&
+            (config.algorithm === "wordpiece" ||
+              !t.includes(CONTINUATION_PREFIX))
+        )
+    ),
+  ];
+
+  return {
+    segments,
+    order,
+    vocabulary: [
+      ...uniqueChars,
+      ...fallbackVocabulary(config),
+      ...config.specialTokens,
+    ],
+    corpusLength: corpus.length,
+    rareCharacters: [...rare],
+  };
+};
+
+// Step 0: nothing merged yet
+export const initialStep = (initial: BPEInitialState): BPEStepDelta => {
+  let tokenCount = 0;
+  let characterCount = 0;
+  initial.order.forEach((s) => {
+    tokenCount += initial.segments[s].length;
+    characterCount += initial.segments[s].reduce(
+      (sum, token) => sum + token.length,
+      0
+    );
+  });
+
+  return {
+    iteration: 0,
+    rule: null,
+    frequency: 0,
+    positions: [],
+    tokenCount,
+    characterCount,
+    compressionRatio: initial.corpusLength / tokenCount,
+  };
+};
+
+// WordPiece scores depend on symbol counts that change with every merge,
+// so it always recounts
+const createTrainingCorpus = (
+  config: BPEConfig,
+  initial: BPEInitialState
+): TrainingCorpus => {
+  const { segments, order } = initial;
+  if (config.algorithm === "wordpiece") {
+    return createNaiveCorpus(
+      segments,
+      order,
+      config.tieBreak,
+      "likelihood",
+      config.stopping.minPairFrequency
+    );
+  }
+  return config.trainer === "incremental"
+    ? createIncrementalCorpus(segments, order, config.tieBreak)
+    : createNaiveCorpus(segments, order, config.tieBreak);
+};
+
+export const STOP_REASON_LABELS: Record<StopReason, string> = {
+  "vocab-size": "Reached the vocabulary size",
+  "min-frequency": "No pair left at the minimum frequency",
+  compression: "Reached the target compression ratio",
+  "max-merges": "Reached the maximum number of merges",
+  "max-token-length": "Next merge exceeded the maximum token length",
+  "time-budget": "Ran out of time budget",
+};
+
+// Characters a token covers, without word-boundary markers
+const tokenLength = (token: string, config: BPEConfig): number =>
+  splitCharacters(
+    token.replace(END_OF_WORD, "").replace(CONTINUATION_PREFIX, ""),
+    config.characterUnit
+  ).length;
+
+export const train = (
+  corpus: string,
+  config: BPEConfig,
+  options: TrainOptions = {}
+): BPEResult => {
+  const { vocabSize: maxVocabSize, family, stopping } = config;
+  const initial = initialState(corpus, config);
+  options.onStart?.(initial);
+
+  if (config.algorithm === "unigram") {
+    const steps: BPEStepDelta[] = [initialStep(initial)];
+    options.onStep?.(steps[0], 0);
+    trainUnigram(
+      initial,
+      maxVocabSize -
+        fallbackVocabulary(config).length -
+        config.specialTokens.length,
+      config.specialTokens,
+      (step, totalSteps) => {
+        steps.push(step);
+        options.onStep?.(step, totalSteps);
+      }
+    );
+    return summarize(config, initial, steps, "vocab-size");
+  }
+
+  const trainingCorpus = createTrainingCorpus(config, initial);
+  const steps: BPEStepDelta[] = [initialStep(initial)];
+  const mergingRules: MergeRule[] = [];
+  const maxIterations = Math.min(
+    maxVocabSize - initial.vocabulary.length,
+    stopping.maxMerges ?? Infinity
+  );
+  options.onStep?.(steps[0], Math.max(maxIterations, 0));
+  const startTime = Date.now();
+  let stopReason: StopReason =
+    maxIterations === stopping.maxMerges ? "max-merges" : "vocab-size";
+
+  for (let iter = 1; iter <= maxIterations; iter++) {
+    const previous = steps[steps.length - 1];
+    if (
+      stopping.targetCompressionRatio !== undefined &&
+      previous.compressionRatio >= stopping.targetCompressionRatio
+    ) {
+      stopReason = "compression";
+      break;
+    }
+    if (
+      stopping.timeBudgetMs !== undefined &&
+      Date.now() - startTime >= stopping.timeBudgetMs
+    ) {
+      stopReason = "time-budget";
+      break;
+    }
+    const best = trainingCorpus.bestPair();
+    if (!best || best.frequency < stopping.minPairFrequency) {
+      stopReason = "min-frequency";
+      break;
+    }
+
+    const { pair, frequency, score } = best;
+    const newToken = mergePair(pair, family);
+    if (
+      stopping.maxTokenLength !== undefined &&
+      tokenLength(newToken, config) > stopping.maxTokenLength
+    ) {
+      stopReason = "max-token-length";
+      break;
+    }
+    const sites = trainingCorpus.merge(pair, newToken);
+    const rule = { pair, newToken };
+    mergingRules.push(rule);
+
+    const tokenCount = previous.tokenCount - sites.count;
+    steps.push({
+      iteration: iter,
+      rule,
+      frequency,
+      score,
+      positions: sites.positions,
+      tokenCount,
+      characterCount:
+        previous.characterCount +
+        sites.count * (newToken.length - pair[0].length - pair[1].length),
+      compressionRatio: corpus.length / tokenCount,
+    });
+    options.onStep?.(steps[steps.length - 1], maxIterations);
+  }
+
+  return summarize(config, initial, steps, stopReason);
+};
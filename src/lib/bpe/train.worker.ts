@@ -0,0 +1,54 @@
+import { train } from "./train";
+import type {
+  BPEStepDelta,
+  TrainWorkerRequest,
+  TrainWorkerResponse,
+} from "./types";
+
+const ctx = self as unknown as Worker;
+
+// Steps are posted in batches so long runs don't flood the main thread
+const BATCH_INTERVAL_MS = 50;
+
+const post = (message: TrainWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<TrainWorkerRequest>) => {
+  const { id, corpus, config } = event.data;
+  let pending: BPEStepDelta[] = [];
+  let lastFlush = 0;
+
+  const flush = () => {
+    if (pending.length > 0) {
+      post({ type: "steps", id, steps: pending });
+      pending = [];
+    }
+    lastFlush = Date.now();
+  };
+
+  try {
+    const { stopReason } = train(corpus, config, {
+      onStart: (initial) => post({ type: "start", id, initial }),
+      onStep: (step, totalSteps) => {
+        pending.push(step);
+        if (Date.now() - lastFlush >= BATCH_INTERVAL_MS) {
+          flush();
+          post({
+            type: "progress",
+            id,
+            step: step.iteration,
+            totalSteps,
+            pair: step.rule?.pair ?? null,
+          });
+        }
+      },
+    });
+    flush();
+    post({ type: "done", id, stopReason });
+  } catch (error) {
+    post({
+      type: "error",
+      id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,233 @@
+export type TokenizerFamily = "gpt" | "bert" | "t5" | "llama" | "custom";
+
+// "words" counts pairs inside each word weighted by word frequency;
+// "stream" counts adjacent symbols over the whole text, across word boundaries
+export type TrainingMode = "words" | "stream";
+
+// "naive" recounts every pair before each merge, which is easy to follow;
+// "incremental" updates counts around merge sites and keeps a heap of pairs.
+// Both produce identical merges.
+export type TrainerKind = "naive" | "incremental";
+
+export type TokenizerAlgorithm = "bpe" | "wordpiece" | "unigram";
+
+// Which pair wins when several share the highest frequency: the one seen
+// first in the text, the lexicographically smallest, or the one producing
+// the shortest or longest merged token
+export type TieBreakPolicy = "first" | "lexicographic" | "shortest" | "longest";
+
+export type PreTokenizerKind =
+  | "gpt2"
+  | "cl100k"
+  | "whitespace"
+  | "punctuation"
+  | "metaspace"
+  | "custom";
+
+export interface PreTokenizerConfig {
+  kind: PreTokenizerKind;
+  // Regex source, only used by "custom"
+  pattern?: string;
+}
+
+export interface MergeRule {
+  pair: [string, string];
+  newToken: string;
+}
+
+// What a single initial symbol is: a code point, or a user-perceived
+// character (grapheme cluster) such as an emoji sequence or a letter with
+// its combining marks
+export type CharacterUnit = "code-point" | "grapheme";
+
+// What the encoder does with characters outside the vocabulary: spell
+// them as <0xNN> UTF-8 byte tokens, or replace each with <unk>
+export type UnknownHandling = "byte-fallback" | "unk";
+
+export type UnicodeForm = "none" | "NFC" | "NFD" | "NFKC" | "NFKD";
+
+// Text cleaning applied before anything else, see normalizerStages
+export interface NormalizerConfig {
+  unicodeForm: UnicodeForm;
+  lowercase: boolean;
+  stripAccents: boolean;
+  removeControl: boolean;
+  collapseWhitespace: boolean;
+}
+
+// How SentencePiece-style models turn spaces into ▁, see preprocess
+export interface SpaceHandling {
+  // Prepend a space so the first word starts with ▁ like the others
+  addDummyPrefix: boolean;
+  // Trim the text and collapse whitespace runs into one space
+  removeExtraWhitespaces: boolean;
+  // Spell spaces as ▁
+  escapeWhitespaces: boolean;
+}
+
+// Limits that can end training before the vocabulary size is reached.
+// Optional limits are off when undefined.
+export interface StoppingCriteria {
+  // Pairs seen fewer times than this are never merged
+  minPairFrequency: number;
+  targetCompressionRatio?: number;
+  maxMerges?: number;
+  // In characters, not counting </w> or ## markers
+  maxTokenLength?: number;
+  timeBudgetMs?: number;
+}
+
+export type StopReason =
+  | "vocab-size"
+  | "min-frequency"
+  | "compression"
+  | "max-merges"
+  | "max-token-length"
+  | "time-budget";
+
+export interface BPEConfig {
+  vocabSize: number;
+  algorithm: TokenizerAlgorithm;
+  family: TokenizerFamily;
+  // Merge over UTF-8 bytes mapped to printable symbols, as GPT-2 does
+  byteLevel: boolean;
+  // Runs before model-specific preprocessing, none when unset
+  normalizer?: NormalizerConfig;
+  preTokenizer: PreTokenizerConfig;
+  trainingMode: TrainingMode;
+  trainer: TrainerKind;
+  tieBreak: TieBreakPolicy;
+  // Ignored by byte-level models, whose symbols are bytes
+  characterUnit: CharacterUnit;
+  // Share of the text's characters the alphabet must cover; the rarest
+  // characters beyond it are left out, as in SentencePiece. 1 keeps all.
+  characterCoverage: number;
+  unknownHandling: UnknownHandling;
+  stopping: StoppingCriteria;
+  specialTokens: string[];
+  // Match special tokens in the text and keep them whole, like tiktoken's
+  // allowed_special; when off they are tokenized as ordinary text
+  allowSpecialTokens: boolean;
+  // WordPiece encoding: longer words become a single unknown token
+  maxInputCharsPerWord?: number;
+  // T5 and LLaMA only; SentencePiece's defaults when unset
+  spaceHandling?: SpaceHandling;
+}
+
+// The text split into base symbols before any merge. Unique words (or the
+// whole text in stream mode) are stored once as segments, and order lists
+// the segment of every word as it appears in the text. Symbols are
+// identified by their index in the concatenation of all segments.
+export interface BPEInitialState {
+  segments: string[][];
+  order: number[];
+  vocabulary: string[];
+  corpusLength: number;
+  // Characters below the coverage threshold. Each stands alone as a
+  // segment, so no merge includes it, and it is not in the vocabulary.
+  rareCharacters: string[];
+}
+
+// A Unigram vocabulary entry: the piece and its log probability
+export type UnigramPiece = [string, number];
+
+// "seed" picks the candidate vocabulary, "em" re-estimates probabilities,
+// "prune" drops the pieces contributing least to the likelihood
+export type UnigramPhase = "seed" | "em" | "prune";
+
+// A Unigram training round. Pruning reshapes the vocabulary and the best
+// segmentation everywhere at once, so rounds store both in full.
+export interface UnigramRound {
+  phase: UnigramPhase;
+  // Negative log likelihood of the Viterbi segmentation, per word
+  loss: number;
+  // Sorted by probability, most likely first
+  pieces: UnigramPiece[];
+  removed: string[];
+  // Viterbi segmentation of every segment, see BPEInitialState
+  segmentation: string[][];
+}
+
+// What training records per step: the merge and where it applied, rather
+// than a full copy of the tokens. Step 0 has no rule.
+export interface BPEStepDelta {
+  iteration: number;
+  rule: MergeRule | null;
+  frequency: number;
+  // WordPiece likelihood score of the merged pair
+  score?: number;
+  // Symbol index where each merged token starts
+  positions: number[];
+  tokenCount: number;
+  characterCount: number;
+  compressionRatio: number;
+  // Unigram steps are training rounds rather than merges
+  round?: UnigramRound;
+}
+
+// A step rebuilt from the deltas for display
+export interface BPEStep {
+  iteration: number;
+  mostFrequentPair: [string, string] | null;
+  newToken: string | null;
+  frequency: number;
+  score?: number;
+  vocabulary: string[];
+  mergedTokens: string[];
+  compressionRatio: number;
+  mergingRules: MergeRule[];
+  round?: UnigramRound;
+}
+
+export interface BPEResult {
+  config: BPEConfig;
+  initial: BPEInitialState;
+  steps: BPEStepDelta[];
+  finalVocabulary: string[];
+  mergingRules: MergeRule[];
+  // Unigram pieces with their log probabilities
+  pieces?: UnigramPiece[];
+  // Why training ended; unset while it is still running
+  stopReason?: StopReason;
+  statistics: {
+    totalMerges: number;
+    finalCompressionRatio: number;
+    uniqueChars: number;
+    averageTokenLength: number;
+    vocabularyEfficiency: number;
+  };
+}
+
+// Everything encode/decode need from a training run
+export type Tokenizer = Pick<
+  BPEResult,
+  "config" | "finalVocabulary" | "mergingRules" | "pieces"
+>;
+
+export interface Encoding {
+  tokens: string[];
+  ids: number[];
+}
+
+// Messages exchanged with the training worker. A run is cancelled by
+// terminating the worker; responses carry the id of the run they belong to
+// so late messages from a superseded run can be ignored.
+export type TrainWorkerRequest = {
+  type: "train";
+  id: number;
+  corpus: string;
+  config: BPEConfig;
+};
+
+export type TrainWorkerResponse =
+  | {
+      type: "progress";
+      id: number;
+      step: number;
+      totalSteps: number;
+      pair: [string, string] | null;
+    }
+  | { type: "start"; id: number; initial: BPEInitialState }
+  | { type: "steps"; id: number; steps: BPEStepDelta[] }
+  | { type: "done"; id: number; stopReason: StopReason }
+  | { type: "error"; id: number; message: string };
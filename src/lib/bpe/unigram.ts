@@ -0,0 +1,359 @@
+import { segmentWeights } from "./corpus";
+import { fallbackVocabulary } from "./fallback";
+import type {
+  BPEConfig,
+  BPEInitialState,
+  BPEStepDelta,
+  UnigramPhase,
+  UnigramPiece,
+  UnigramRound,
+} from "./types";
+
+// Longest piece, in base symbols, the trainer considers. Imported
+// vocabularies may hold longer ones, see viterbi.
+export const MAX_PIECE_LENGTH = 16;
+// The seed vocabulary is this many times the target size
+const SEED_FACTOR = 4;
+// Each pruning round keeps this share of the pieces, as SentencePiece does
+const SHRINKING_FACTOR = 0.75;
+const EM_ITERATIONS_PER_ROUND = 2;
+// Pieces expected to occur less often than this are dropped after EM
+const MIN_EXPECTED_COUNT = 0.5;
+
+const logSumExp = (a: number, b: number): number => {
+  if (a === -Infinity) return b;
+  if (b === -Infinity) return a;
+  return Math.max(a, b) + Math.log1p(Math.exp(-Math.abs(a - b)));
+};
+
+// Calls visit for every vocabulary piece starting at each symbol
+const forEachPiece = (
+  symbols: string[],
+  pieces: Map<string, number>,
+  visit: (start: number, end: number, piece: string, logProb: number) => void
+) => {
+  for (let i = 0; i < symbols.length; i++) {
+    let piece = "";
+    const last = Math.min(symbols.length, i + MAX_PIECE_LENGTH);
+    for (let j = i + 1; j <= last; j++) {
+      piece += symbols[j - 1];
+      const logProb = pieces.get(piece);
+      if (logProb !== undefined) visit(i, j, piece, logProb);
+    }
+  }
+};
+
+// Most likely segmentation of a symbol sequence. Symbols missing from the
+// vocabulary are kept as single tokens so the lattice stays connected.
+// Pieces longer than maxPieceLength symbols are never tried.
+export const viterbi = (
+  symbols: string[],
+  pieces: Map<string, number>,
+  maxPieceLength = MAX_PIECE_LENGTH
+): string[] => {
+  const best = new Float64Array(symbols.length + 1).fill(-Infinity);
+  const back = new Int32Array(symbols.length + 1);
+  const backPiece: string[] = [];
+  best[0] = 0;
+  for (let i = 0; i < symbols.length; i++) {
+    if (best[i] === -Infinity) continue;
+    let piece = "";
+    let found = false;
+    const last = Math.min(symbols.length, i + maxPieceLength);
+    for (let j = i + 1; j <= last; j++) {
+      piece += symbols[j - 1];
+      const logProb = pieces.get(piece);
+      if (logProb === undefined) continue;
+      if (j === i + 1) found = true;
+      if (best[i] + logProb > best[j]) {
+        best[j] = best[i] + logProb;
+        back[j] = i;
+        backPiece[j] = piece;
+      }
+    }
+    if (!found && best[i] > best[i + 1]) {
+      // Unknown symbol: a flat penalty keeps it below any known piece
+      best[i + 1] = best[i] - 1e6;
+      back[i + 1] = i;
+      backPiece[i + 1] = symbols[i];
+    }
+  }
+
+  const tokens: string[] = [];
+  for (let j = symbols.length; j > 0; j = back[j]) tokens.push(backPiece[j]);
+  return tokens.reverse();
+};
+
+// Expected piece counts under the current probabilities, by
+// forward-backward over every segment's lattice
+const expectation = (
+  segments: string[][],
+  weights: number[],
+  pieces: Map<string, number>
+) => {
+  const counts = new Map<string, number>();
+  segments.forEach((symbols, s) => {
+    const n = symbols.length;
+    if (n === 0) return;
+    const alpha = new Float64Array(n + 1).fill(-Infinity);
+    const beta = new Float64Array(n + 1).fill(-Infinity);
+    alpha[0] = 0;
+    beta[n] = 0;
+    const edges: { start: number; end: number; piece: string; lp: number }[] =
+      [];
+    forEachPiece(symbols, pieces, (start, end, piece, lp) =>
+      edges.push({ start, end, piece, lp })
+    );
+    // Edges come sorted by start, which is all the forward pass needs
+    for (const { start, end, lp } of edges) {
+      alpha[end] = logSumExp(alpha[end], alpha[start] + lp);
+    }
+    for (let e = edges.length - 1; e >= 0; e--) {
+      const { start, end, lp } = edges[e];
+      beta[start] = logSumExp(beta[start], lp + beta[end]);
+    }
+    const total = alpha[n];
+    for (const { start, end, piece, lp } of edges) {
+      const posterior = Math.exp(alpha[start] + lp + beta[end] - total);
+      counts.set(piece, (counts.get(piece) || 0) + weights[s] * posterior);
+    }
+  });
+  return counts;
+};
+
+const toLogProbs = (counts: Map<string, number>): Map<string, number> => {
+  let total = 0;
+  counts.forEach((count) => (total += count));
+  const logProbs = new Map<string, number>();
+  counts.forEach((count, piece) =>
+    logProbs.set(piece, Math.log(count / total))
+  );
+  return logProbs;
+};
+
+// Frequent substrings of every segment, ranked by frequency * length
+const seedPieces = (
+  segments: string[][],
+  weights: number[],
+  characters: Set<string>,
+  excluded: Set<string>,
+  size: number
+): Map<string, number> => {
+  const counts = new Map<string, number>();
+  segments.forEach((symbols, s) => {
+    for (let i = 0; i < symbols.length; i++) {
+      let piece = "";
+      const last = Math.min(symbols.length, i + MAX_PIECE_LENGTH);
+      for (let j = i + 1; j <= last; j++) {
+        piece += symbols[j - 1];
+        counts.set(piece, (counts.get(piece) || 0) + weights[s]);
+      }
+    }
+  });
+
+  const candidates = [...counts.entries()]
+    .filter(
+      ([piece, count]) =>
+        !characters.has(piece) && !excluded.has(piece) && count > 1
+    )
+    .sort(
+      (a, b) =>
+        b[1] * b[0].length - a[1] * a[0].length ||
+        (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0)
+    )
+    .slice(0, Math.max(size - characters.size, 0));
+
+  const seed = new Map<string, number>();
+  characters.forEach((char) => seed.set(char, counts.get(char) || 1));
+  candidates.forEach(([piece, count]) => seed.set(piece, count));
+  return seed;
+};
+
+// Loss each piece contributes: how much the Viterbi log likelihood drops
+// when its occurrences are resegmented without it
+const pruneScores = (
+  segments: string[][],
+  weights: number[],
+  logProbs: Map<string, number>,
+  pieceSymbols: Map<string, string[]>
+) => {
+  const frequencies = new Map<string, number>();
+  segments.forEach((symbols, s) => {
+    for (const token of viterbi(symbols, logProbs)) {
+      frequencies.set(token, (frequencies.get(token) || 0) + weights[s]);
+    }
+  });
+
+  const scores = new Map<string, number>();
+  pieceSymbols.forEach((symbols, piece) => {
+    const frequency = frequencies.get(piece) || 0;
+    const logProb = logProbs.get(piece);
+    if (frequency === 0) {
+      scores.set(piece, 0);
+      return;
+    }
+    logProbs.delete(piece);
+    const alternative = viterbi(symbols, logProbs).reduce(
+      (sum, token) => sum + (logProbs.get(token) ?? -1e6),
+      0
+    );
+    logProbs.set(piece, logProb);
+    scores.set(piece, frequency * (logProb - alternative));
+  });
+  return scores;
+};
+
+// Turns a round into a step delta, counting tokens over the whole text
+const roundStep = (
+  iteration: number,
+  round: UnigramRound,
+  initial: BPEInitialState
+): BPEStepDelta => {
+  let tokenCount = 0;
+  let characterCount = 0;
+  initial.order.forEach((s) => {
+    tokenCount += round.segmentation[s].length;
+    characterCount += round.segmentation[s].reduce(
+      (sum, token) => sum + token.length,
+      0
+    );
+  });
+  return {
+    iteration,
+    rule: null,
+    frequency: 0,
+    positions: [],
+    tokenCount,
+    characterCount,
+    compressionRatio: initial.corpusLength / tokenCount,
+    round,
+  };
+};
+
+// A Unigram vocabulary: the pieces, then the fallback and special tokens,
+// which carry no probability
+export const unigramVocabulary = (
+  pieces: UnigramPiece[],
+  config: BPEConfig
+): string[] =>
+  pieces
+    .map(([piece]) => piece)
+    .concat(fallbackVocabulary(config), config.specialTokens);
+
+// Unigram language model training (Kudo, 2018): seed a large vocabulary,
+// re-estimate piece probabilities with EM, then drop the pieces whose
+// removal costs the least likelihood until the target size is reached.
+// Base symbols are never pruned, so every text stays segmentable. Special
+// tokens and rare characters stay out of the pieces, they are segments of
+// their own.
+export const trainUnigram = (
+  initial: BPEInitialState,
+  targetSize: number,
+  specialTokens: string[],
+  onStep: (step: BPEStepDelta, totalSteps: number) => void
+) => {
+  const { segments, order } = initial;
+  const weights = segmentWeights(segments, order);
+  const wordCount = order.length || 1;
+  const excluded = new Set([...specialTokens, ...initial.rareCharacters]);
+  const characters = new Set(
+    segments.flat().filter((symbol) => !excluded.has(symbol))
+  );
+  const target = Math.max(targetSize, characters.size);
+
+  const seed = seedPieces(
+    segments,
+    weights,
+    characters,
+    excluded,
+    target * SEED_FACTOR
+  );
+  // Symbols of every multi-symbol piece, to resegment it when pruning
+  const pieceSymbols = new Map<string, string[]>();
+  segments.forEach((symbols) => {
+    for (let i = 0; i < symbols.length; i++) {
+      let piece = symbols[i];
+      const last = Math.min(symbols.length, i + MAX_PIECE_LENGTH);
+      for (let j = i + 2; j <= last; j++) {
+        piece += symbols[j - 1];
+        if (seed.has(piece) && !pieceSymbols.has(piece)) {
+          pieceSymbols.set(piece, symbols.slice(i, j));
+        }
+      }
+    }
+  });
+
+  // Every pruning round shrinks the vocabulary by at least the shrinking
+  // factor, which bounds the number of rounds
+  const prunes =
+    seed.size > target
+      ? Math.ceil(Math.log(target / seed.size) / Math.log(SHRINKING_FACTOR))
+      : 0;
+  const totalSteps = 1 + (prunes + 1) * EM_ITERATIONS_PER_ROUND + prunes;
+
+  let logProbs = toLogProbs(seed);
+  let iteration = 0;
+  const emit = (phase: UnigramPhase, removed: string[]) => {
+    const pieces: UnigramPiece[] = [...logProbs.entries()].sort(
+      (a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0)
+    );
+    const segmentation = segments.map((symbols) => viterbi(symbols, logProbs));
+    // Special tokens are certain, they add nothing to the loss, and neither
+    // do rare characters, which are always unknown
+    let logLikelihood = 0;
+    segmentation.forEach((tokens, s) =>
+      tokens.forEach(
+        (token) => (logLikelihood += weights[s] * (logProbs.get(token) ?? 0))
+      )
+    );
+    const round: UnigramRound = {
+      phase,
+      loss: -logLikelihood / wordCount,
+      pieces,
+      removed,
+      segmentation,
+    };
+    onStep(roundStep(++iteration, round, initial), totalSteps);
+  };
+  emit("seed", []);
+
+  const runEM = () => {
+    for (let i = 0; i < EM_ITERATIONS_PER_ROUND; i++) {
+      const counts = expectation(segments, weights, logProbs);
+      const kept = new Map<string, number>();
+      logProbs.forEach((_, piece) => {
+        const count = counts.get(piece) || 0;
+        if (characters.has(piece)) {
+          kept.set(piece, Math.max(count, MIN_EXPECTED_COUNT));
+        } else if (count >= MIN_EXPECTED_COUNT) {
+          kept.set(piece, count);
+        } else {
+          pieceSymbols.delete(piece);
+        }
+      });
+      logProbs = toLogProbs(kept);
+      emit("em", []);
+    }
+  };
+
+  runEM();
+  while (logProbs.size > target) {
+    const scores = pruneScores(segments, weights, logProbs, pieceSymbols);
+    const keep = Math.max(target, Math.floor(logProbs.size * SHRINKING_FACTOR));
+    const removed = [...scores.entries()]
+      .sort((a, b) => a[1] - b[1] || (a[0] < b[0] ? -1 : 1))
+      .slice(0, logProbs.size - keep)
+      .map(([piece]) => piece);
+    if (removed.length === 0) break;
+
+    const counts = new Map<string, number>();
+    logProbs.forEach((logProb, piece) => counts.set(piece, Math.exp(logProb)));
+    removed.forEach((piece) => {
+      counts.delete(piece);
+      pieceSymbols.delete(piece);
+    });
+    logProbs = toLogProbs(counts);
+    emit("prune", removed);
+    runEM();
+  }
+};
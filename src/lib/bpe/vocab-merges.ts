@@ -0,0 +1,113 @@
+import { fallbackVocabulary } from "./fallback";
+import { END_OF_WORD } from "./preprocess";
+import type { Tokenizer } from "./types";
+
+// First line of every merges.txt since GPT-2
+export const MERGES_HEADER = "#version: 0.2";
+
+// The Custom model's separate </w> symbol has no equivalent in the file
+// formats: tokenizers can only attach the suffix to each word's last
+// character. The exports below approximate it that way, but words where a
+// merge inside them outranks the one onto </w> come out differently.
+export const hasEndOfWordSymbol = ({ config }: Tokenizer) =>
+  config.algorithm === "bpe" && config.family === "custom" && !config.byteLevel;
+
+// The vocabulary in id order. With the </w> suffix every base character
+// also gets a "c</w>" entry after the trained vocabulary, as the initial
+// symbol of words ending in it.
+export const exportVocabulary = (tokenizer: Tokenizer): string[] => {
+  const vocabulary = [...tokenizer.finalVocabulary];
+  if (!hasEndOfWordSymbol(tokenizer)) return vocabulary;
+
+  const known = new Set(vocabulary);
+  // Base characters are whatever no merge produced
+  const reserved = new Set([
+    END_OF_WORD,
+    ...fallbackVocabulary(tokenizer.config),
+    ...tokenizer.config.specialTokens,
+    ...tokenizer.mergingRules.map((rule) => rule.newToken),
+  ]);
+  tokenizer.finalVocabulary
+    .filter((token) => !reserved.has(token))
+    .forEach((char) => {
+      const suffixed = char + END_OF_WORD;
+      if (!known.has(suffixed)) {
+        known.add(suffixed);
+        vocabulary.push(suffixed);
+      }
+    });
+  return vocabulary;
+};
+
+// Merges in rank order. With the </w> suffix, merges onto a bare </w> are
+// implied by the initial symbols, see hasEndOfWordSymbol.
+export const exportMerges = (tokenizer: Tokenizer): [string, string][] => {
+  const suffix = hasEndOfWordSymbol(tokenizer);
+  return tokenizer.mergingRules
+    .map((rule) => rule.pair)
+    .filter((pair) => !suffix || pair[1] !== END_OF_WORD);
+};
+
+// Token to id, keeping the first id of a repeated token. The object has
+// no prototype, so tokens like "constructor" or "__proto__" are plain keys.
+export const toVocabJson = (tokenizer: Tokenizer): Record<string, number> => {
+  const vocab: Record<string, number> = Object.create(null);
+  exportVocabulary(tokenizer).forEach((token, id) => {
+    if (!(token in vocab)) vocab[token] = id;
+  });
+  return vocab;
+};
+
+// One "a b" merge per line, highest priority first. Byte-level tokens are
+// already in GPT-2's printable byte encoding, so they need no escaping.
+export const toMergesTxt = (tokenizer: Tokenizer): string =>
+  [MERGES_HEADER, ...exportMerges(tokenizer).map((pair) => pair.join(" "))]
+    .join("\n")
+    .concat("\n");
+
+// Token strings in id order from a vocab.json. Throws on anything but an
+// object of integer ids.
+export const parseVocabJson = (text: string): string[] => {
+  const vocab: unknown = JSON.parse(text);
+  if (typeof vocab !== "object" || vocab === null || Array.isArray(vocab)) {
+    throw new Error("vocab.json must map tokens to ids");
+  }
+  const vocabulary: string[] = [];
+  Object.entries(vocab).forEach(([token, id]) => {
+    if (!Number.isInteger(id) || id < 0) {
+      throw new Error(`vocab.json: "${token}" has no valid id`);
+    }
+    vocabulary[id] = token;
+  });
+  return vocabulary;
+};
+
+// Merge pairs in rank order. The header and blank lines are skipped.
+export const parseMergesTxt = (text: string): [string, string][] =>
+  text.split(/\r?\n/).flatMap((line, index) => {
+    if (line.length === 0 || line.startsWith("#version")) return [];
+    const pair = line.split(" ");
+    if (pair.length !== 2) {
+      throw new Error(`merges.txt line ${index + 1}: expected two tokens`);
+    }
+    return [pair as [string, string]];
+  });
+
+// merges.txt separates the tokens of a pair with a space and merges with
+// line breaks, so it can't hold tokens containing whitespace, such as the
+// leading spaces Custom BPE keeps with regex pre-tokenizers. True when
+// parsing the exported file gives the exported merges back.
+export const canExportMergesTxt = (tokenizer: Tokenizer): boolean => {
+  const merges = exportMerges(tokenizer);
+  try {
+    const parsed = parseMergesTxt(toMergesTxt(tokenizer));
+    return (
+      parsed.length === merges.length &&
+      parsed.every(
+        (pair, i) => pair[0] === merges[i][0] && pair[1] === merges[i][1]
+      )
+    );
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,39 @@
+import { CONTINUATION_PREFIX, splitCharacters } from "./preprocess";
+import type { CharacterUnit } from "./types";
+
+export const UNKNOWN_TOKEN = "[UNK]";
+
+// Same default as BERT's WordpieceTokenizer
+export const DEFAULT_MAX_INPUT_CHARS_PER_WORD = 100;
+
+// Greedy longest-match-first segmentation of one word, as in BERT. If any
+// part of the word can't be matched the whole word becomes [UNK].
+export const encodeWordPiece = (
+  word: string,
+  vocabulary: Set<string>,
+  maxInputCharsPerWord = DEFAULT_MAX_INPUT_CHARS_PER_WORD,
+  characterUnit: CharacterUnit = "code-point"
+): string[] => {
+  const chars = splitCharacters(word, characterUnit);
+  if (chars.length > maxInputCharsPerWord) return [UNKNOWN_TOKEN];
+
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < chars.length) {
+    let end = chars.length;
+    let match: string | null = null;
+    while (start < end) {
+      const piece = chars.slice(start, end).join("");
+      const candidate = start > 0 ? `${CONTINUATION_PREFIX}${piece}` : piece;
+      if (vocabulary.has(candidate)) {
+        match = candidate;
+        break;
+      }
+      end--;
+    }
+    if (match === null) return [UNKNOWN_TOKEN];
+    pieces.push(match);
+    start = end;
+  }
+  return pieces;
+};